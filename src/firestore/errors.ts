@@ -0,0 +1,177 @@
+import { z } from 'zod';
+
+export type FirestoreErrorCode =
+	| 'cancelled'
+	| 'unknown'
+	| 'invalid-argument'
+	| 'deadline-exceeded'
+	| 'not-found'
+	| 'already-exists'
+	| 'permission-denied'
+	| 'resource-exhausted'
+	| 'failed-precondition'
+	| 'aborted'
+	| 'out-of-range'
+	| 'unimplemented'
+	| 'internal'
+	| 'unavailable'
+	| 'data-loss'
+	| 'unauthenticated';
+
+export type FirestoreErrorDetail =
+	| { type: 'RetryInfo'; retryDelayMs: number }
+	| { type: 'ErrorInfo'; reason: string; domain: string; metadata: Record<string, string> }
+	| { type: string; value: Record<string, unknown> };
+
+export type FirestoreErrorOptions = {
+	// Canonical gRPC status name, e.g. `NOT_FOUND`.
+	apiStatus?: string | null;
+	grpcStatus?: number | null;
+	httpStatus?: number | null;
+	details?: unknown[];
+	// The RPC that failed, e.g. `commit` or `Listen`.
+	method?: string | null;
+	cause?: unknown;
+};
+
+// Indexed by gRPC status code.
+const GRPC_STATUS_NAMES: readonly string[] = [
+	'OK',
+	'CANCELLED',
+	'UNKNOWN',
+	'INVALID_ARGUMENT',
+	'DEADLINE_EXCEEDED',
+	'NOT_FOUND',
+	'ALREADY_EXISTS',
+	'PERMISSION_DENIED',
+	'RESOURCE_EXHAUSTED',
+	'FAILED_PRECONDITION',
+	'ABORTED',
+	'OUT_OF_RANGE',
+	'UNIMPLEMENTED',
+	'INTERNAL',
+	'UNAVAILABLE',
+	'DATA_LOSS',
+	'UNAUTHENTICATED'
+];
+
+// Used when a response carries no status name.
+const HTTP_TO_GRPC_STATUS: Record<number, number> = {
+	400: 3,
+	401: 16,
+	403: 7,
+	404: 5,
+	409: 10,
+	412: 9,
+	429: 8,
+	499: 1,
+	500: 13,
+	501: 12,
+	503: 14,
+	504: 4
+};
+
+const RetryInfoSchema = z.object({ retryDelay: z.string().optional() });
+
+const ErrorInfoSchema = z.object({
+	reason: z.string().optional(),
+	domain: z.string().optional(),
+	metadata: z.record(z.string(), z.string()).optional()
+});
+
+function resolveGrpcStatus(options: FirestoreErrorOptions): number {
+	if (options.apiStatus) {
+		const index = GRPC_STATUS_NAMES.indexOf(options.apiStatus);
+		if (index > 0) {
+			return index;
+		}
+	}
+	if (
+		typeof options.grpcStatus === 'number' &&
+		options.grpcStatus > 0 &&
+		options.grpcStatus < GRPC_STATUS_NAMES.length
+	) {
+		return options.grpcStatus;
+	}
+	if (typeof options.httpStatus === 'number') {
+		return HTTP_TO_GRPC_STATUS[options.httpStatus] ?? 2;
+	}
+	return 2;
+}
+
+// `google.protobuf.Duration` in JSON form, e.g. `1.5s`.
+function parseDurationMs(value: string | undefined): number {
+	const match = /^(\d+(?:\.\d+)?)s$/.exec(value ?? '');
+	return match ? Math.round(Number(match[1]) * 1000) : 0;
+}
+
+function parseErrorDetail(detail: unknown): FirestoreErrorDetail | null {
+	if (detail === null || typeof detail !== 'object') {
+		return null;
+	}
+	const { '@type': typeUrl, ...value } = detail as Record<string, unknown>;
+	const type = typeof typeUrl === 'string' ? typeUrl.slice(typeUrl.lastIndexOf('.') + 1) : '';
+	if (type === 'RetryInfo') {
+		const parsed = RetryInfoSchema.safeParse(value);
+		if (parsed.success) {
+			return { type, retryDelayMs: parseDurationMs(parsed.data.retryDelay) };
+		}
+	}
+	if (type === 'ErrorInfo') {
+		const parsed = ErrorInfoSchema.safeParse(value);
+		if (parsed.success) {
+			return {
+				type,
+				reason: parsed.data.reason ?? '',
+				domain: parsed.data.domain ?? '',
+				metadata: parsed.data.metadata ?? {}
+			};
+		}
+	}
+	return { type, value };
+}
+
+export class FirestoreError extends Error {
+	readonly code: FirestoreErrorCode;
+	readonly grpcStatus: number;
+	readonly apiStatus: string;
+	// Only set for errors that came from an HTTP response.
+	readonly httpStatus: number | null;
+	readonly details: FirestoreErrorDetail[];
+	readonly method: string | null;
+
+	constructor(message: string, options: FirestoreErrorOptions = {}) {
+		super(message, options.cause === undefined ? undefined : { cause: options.cause });
+		this.name = 'FirestoreError';
+		this.grpcStatus = resolveGrpcStatus(options);
+		this.apiStatus = GRPC_STATUS_NAMES[this.grpcStatus];
+		this.code = this.apiStatus.toLowerCase().replaceAll('_', '-') as FirestoreErrorCode;
+		this.httpStatus = options.httpStatus ?? null;
+		this.details = (options.details ?? [])
+			.map(parseErrorDetail)
+			.filter((detail) => detail !== null);
+		this.method = options.method ?? null;
+	}
+
+	// The delay the server asked for through `google.rpc.RetryInfo`, if any.
+	get retryDelayMs(): number | null {
+		for (const detail of this.details) {
+			if (detail.type === 'RetryInfo' && 'retryDelayMs' in detail) {
+				return detail.retryDelayMs;
+			}
+		}
+		return null;
+	}
+}
+
+// Wraps errors that did not come from the API (network failures, invalid payloads) as `unknown`.
+export function toFirestoreError(error: unknown, method: string | null = null): FirestoreError {
+	if (error instanceof FirestoreError) {
+		return error;
+	}
+	return new FirestoreError(error instanceof Error ? error.message : String(error), { method });
+}
+
+// Earlier name of `FirestoreError`; see COMPATIBILITY.md for how its fields changed.
+export const FirestoreApiError = FirestoreError;
+export type FirestoreApiError = FirestoreError;
@@ -0,0 +1,119 @@
+import { Bytes } from './bytes.js';
+import { toFirestoreError } from './errors.js';
+import {
+	DocumentReference,
+	type DocumentSnapshot,
+	type Query,
+	QuerySnapshot
+} from './firestore.js';
+import { GeoPoint } from './geo-point.js';
+import { Timestamp } from './timestamp.js';
+import { VectorValue } from './vector-value.js';
+
+export type SnapshotEventStreamOptions = {
+	includeMetadataChanges?: boolean;
+	// SSE event name used for snapshots; defaults to `snapshot`.
+	event?: string;
+};
+
+type ListenerSnapshot<T> = QuerySnapshot<T> | DocumentSnapshot<T>;
+
+function toJsonValue(value: unknown): unknown {
+	if (value instanceof Timestamp) {
+		return value.toDate().toISOString();
+	}
+	if (value instanceof GeoPoint) {
+		return { latitude: value.latitude, longitude: value.longitude };
+	}
+	if (value instanceof DocumentReference) {
+		return value.path;
+	}
+	if (value instanceof Bytes) {
+		return value.toBase64();
+	}
+	if (value instanceof VectorValue) {
+		return value.toArray();
+	}
+	if (Array.isArray(value)) {
+		return value.map(toJsonValue);
+	}
+	if (value !== null && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, toJsonValue(entry)])
+		);
+	}
+	return value;
+}
+
+function serializeSnapshot<T>(snapshot: ListenerSnapshot<T>): unknown {
+	const base = {
+		readTime: toJsonValue(snapshot.readTime ?? null),
+		fromCache: snapshot.metadata.fromCache
+	};
+	if (snapshot instanceof QuerySnapshot) {
+		return {
+			...base,
+			size: snapshot.size,
+			changes: snapshot.docChanges().map((change) => ({
+				type: change.type,
+				id: change.doc.id,
+				path: change.doc.ref.path,
+				oldIndex: change.oldIndex,
+				newIndex: change.newIndex,
+				updateTime: toJsonValue(change.doc.updateTime ?? null),
+				data: change.type === 'removed' ? null : toJsonValue(change.doc.data())
+			}))
+		};
+	}
+	return {
+		...base,
+		id: snapshot.id,
+		path: snapshot.ref.path,
+		exists: snapshot.exists,
+		updateTime: toJsonValue(snapshot.updateTime ?? null),
+		data: toJsonValue(snapshot.data() ?? null)
+	};
+}
+
+function formatEvent(event: string, data: unknown): string {
+	return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Streams a listener as Server-Sent Events, e.g. `new Response(snapshotEventStream(query), {
+// headers: { 'content-type': 'text/event-stream' } })`. Each snapshot becomes one event with its
+// JSON-serialized document changes; listener errors are sent as an `error` event that ends the
+// stream. Snapshots are only pulled as fast as the client reads, and cancelling the stream
+// unsubscribes the listener.
+export function snapshotEventStream<T>(
+	source: Query<T> | DocumentReference<T>,
+	options: SnapshotEventStreamOptions = {}
+): ReadableStream<Uint8Array> {
+	const snapshots: AsyncIterableIterator<ListenerSnapshot<T>> = source.snapshots({
+		includeMetadataChanges: options.includeMetadataChanges
+	});
+	const event = options.event ?? 'snapshot';
+	const encoder = new TextEncoder();
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			let chunk: string;
+			try {
+				const result = await snapshots.next();
+				if (result.done) {
+					controller.close();
+					return;
+				}
+				chunk = formatEvent(event, serializeSnapshot(result.value));
+			} catch (error) {
+				const { code, apiStatus: status, message } = toFirestoreError(error, 'Listen');
+				controller.enqueue(encoder.encode(formatEvent('error', { code, status, message })));
+				controller.close();
+				return;
+			}
+			controller.enqueue(encoder.encode(chunk));
+		},
+		async cancel() {
+			await snapshots.return?.();
+		}
+	});
+}
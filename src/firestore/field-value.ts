@@ -1,3 +1,5 @@
+import { VectorValue } from './vector-value.js';
+
 const FIELD_VALUE_KIND = Symbol('FieldValueKind');
 
 export type FieldValueKind =
@@ -53,6 +55,10 @@ export class FieldValue {
 	static minimum(value: unknown): FieldValue {
 		return new FieldValue('minimum', { operand: value });
 	}
+
+	static vector(values?: number[]): VectorValue {
+		return new VectorValue(values);
+	}
 }
 
 export function getFieldValueKind(value: unknown): FieldValueKind | null {
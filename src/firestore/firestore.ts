@@ -6,16 +6,44 @@ import { getGoogleAccessToken } from '../google/access-token.js';
 
 import type { EncodedDocumentWrite } from './rest/write-encoding.js';
 import { encodeSetData, encodeUpdateData } from './rest/write-encoding.js';
-import { encodeStructuredQuery, type OrderDirection, type WhereOp } from './rest/query-encoding.js';
-import { FirestoreApiError, FirestoreRestClient } from './rest/client.js';
-import type { BatchGetDocumentsResponse, CommitResponse, FirestoreDocument } from './rest/types.js';
-import { fromFirestoreValue } from './rest/value.js';
+import {
+	encodeStructuredQuery,
+	type DistanceMeasure,
+	type FindNearestClause,
+	type OrderDirection,
+	type WhereOp
+} from './rest/query-encoding.js';
+import { FirestoreRestClient } from './rest/client.js';
+import type {
+	BatchGetDocumentsResponse,
+	CommitResponse,
+	ExplainMetricsResponse,
+	FirestoreDocument
+} from './rest/types.js';
+import {
+	encodeBundle,
+	type BundledDocument,
+	type BundledQuery,
+	type NamedQuery
+} from './rest/bundle-encoding.js';
+import { decodeTimestamp, encodeTimestamp, fromFirestoreValue } from './rest/value.js';
+import { FirestoreError, type FirestoreErrorCode, toFirestoreError } from './errors.js';
 import { listenToDocument, listenToQuery } from './listen/listen.js';
+import { parseBloomFilter } from './listen/bloom-filter.js';
+import type { BloomFilterData } from './listen/types.js';
+import { WatchStream } from './listen/watch-stream.js';
 import { Bytes } from './bytes.js';
 import { FieldPath } from './field-path.js';
+import type { FieldValue } from './field-value.js';
 import { Filter, type FilterNode } from './filter.js';
 import { GeoPoint } from './geo-point.js';
+import {
+	DEFAULT_INITIAL_OPS_PER_SECOND,
+	DEFAULT_MAXIMUM_OPS_PER_SECOND,
+	RateLimiter
+} from './rate-limiter.js';
 import { Timestamp } from './timestamp.js';
+import { VectorValue } from './vector-value.js';
 
 const FIRESTORE_SCOPE = 'https://www.googleapis.com/auth/datastore';
 
@@ -26,15 +54,98 @@ export type SetOptions = {
 	mergeFields?: Array<string | FieldPath>;
 };
 
-export type TransactionOptions = {
+export type VectorQueryOptions = {
+	vectorField: string | FieldPath;
+	queryVector: VectorValue | number[];
+	limit: number;
+	distanceMeasure: DistanceMeasure;
+	distanceResultField?: string | FieldPath;
+	distanceThreshold?: number;
+};
+
+export type Precondition = {
+	lastUpdateTime?: Timestamp;
+	exists?: boolean;
+};
+
+export type ReadOptions = {
+	readTime?: Timestamp;
+};
+
+export type DocumentReadOptions = ReadOptions & {
+	fieldMask?: Array<string | FieldPath>;
+};
+
+export type RecursiveDeleteOptions = {
+	maxDocuments?: number;
+};
+
+export type RecursiveDeleteResult = {
+	deletedCount: number;
+	done: boolean;
+};
+
+export type ListDocumentsOptions = {
+	pageSize?: number;
+	pageToken?: string;
+	readTime?: Timestamp;
+	showMissing?: boolean;
+};
+
+export type ListDocumentsPage<T = DocumentData> = {
+	documents: Array<DocumentReference<T>>;
+	nextPageToken: string | null;
+};
+
+export type ReadWriteTransactionOptions = {
+	readOnly?: false;
 	maxAttempts?: number;
 };
 
+export type ReadOnlyTransactionOptions = {
+	readOnly: true;
+	readTime?: Timestamp;
+};
+
+export type TransactionOptions = ReadWriteTransactionOptions | ReadOnlyTransactionOptions;
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+export type WithFieldValue<T> =
+	| T
+	| (T extends Primitive
+			? T
+			: T extends object
+				? { [K in keyof T]: WithFieldValue<T[K]> | FieldValue }
+				: never);
+
+export type PartialWithFieldValue<T> =
+	| Partial<T>
+	| (T extends Primitive
+			? T
+			: T extends object
+				? { [K in keyof T]?: PartialWithFieldValue<T[K]> | FieldValue }
+				: never);
+
+export type FirestoreDataConverter<
+	AppModelType,
+	DbModelType extends DocumentData = DocumentData
+> = {
+	toFirestore(modelObject: WithFieldValue<AppModelType>): WithFieldValue<DbModelType>;
+	toFirestore(
+		modelObject: PartialWithFieldValue<AppModelType>,
+		options: SetOptions
+	): PartialWithFieldValue<DbModelType>;
+	fromFirestore(snapshot: QueryDocumentSnapshot): AppModelType;
+};
+
 export class WriteResult {
 	readonly writeTime: Timestamp;
+	readonly transformResults: Record<string, unknown>;
 
-	constructor(writeTime: Timestamp) {
+	constructor(writeTime: Timestamp, transformResults: Record<string, unknown> = {}) {
 		this.writeTime = writeTime;
+		this.transformResults = transformResults;
 	}
 }
 
@@ -58,25 +169,28 @@ export class SnapshotMetadata {
 
 const DEFAULT_SNAPSHOT_METADATA = new SnapshotMetadata(false, false);
 
-export type DocumentSnapshotData<T extends DocumentData> = T;
-
-export class DocumentSnapshot<T extends DocumentData = DocumentData> {
+export class DocumentSnapshot<T = DocumentData> {
 	readonly ref: DocumentReference<T>;
 	readonly exists: boolean;
 	readonly metadata: SnapshotMetadata;
-	private readonly _data: T | null;
+	private readonly _data: DocumentData | null;
 	private readonly _createTime: Timestamp | null;
 	private readonly _updateTime: Timestamp | null;
 	private readonly _readTime: Timestamp | null;
+	private readonly _document: FirestoreDocument | null;
+	private readonly _partial: boolean;
 
 	constructor(options: {
 		ref: DocumentReference<T>;
 		exists: boolean;
-		data: T | null;
+		data: DocumentData | null;
 		metadata?: SnapshotMetadata;
 		createTime?: Timestamp | null;
 		updateTime?: Timestamp | null;
 		readTime?: Timestamp | null;
+		document?: FirestoreDocument | null;
+		// Read with a field mask, so the data may be missing fields.
+		partial?: boolean;
 	}) {
 		this.ref = options.ref;
 		this.exists = options.exists;
@@ -85,14 +199,31 @@ export class DocumentSnapshot<T extends DocumentData = DocumentData> {
 		this._createTime = options.createTime ?? null;
 		this._updateTime = options.updateTime ?? null;
 		this._readTime = options.readTime ?? null;
+		this._document = options.document ?? null;
+		this._partial = options.partial ?? false;
 	}
 
 	get id(): string {
 		return this.ref.id;
 	}
 
-	data(): DocumentSnapshotData<T> | undefined {
-		return this._data ?? undefined;
+	data(): T | undefined {
+		if (!this.exists || !this._data) {
+			return undefined;
+		}
+		const converter = this.ref._getConverter();
+		if (!converter) {
+			return this._data as T;
+		}
+		return converter.fromFirestore(
+			new QueryDocumentSnapshot({
+				ref: this.ref.withConverter(null),
+				data: this._data,
+				createTime: this._createTime,
+				updateTime: this._updateTime,
+				readTime: this._readTime
+			})
+		);
 	}
 
 	get createTime(): Timestamp | undefined {
@@ -127,43 +258,67 @@ export class DocumentSnapshot<T extends DocumentData = DocumentData> {
 		}
 		return cursor;
 	}
+
+	// Raw (unconverted) document fields, used for local ordering and cursors.
+	_getRawData(): DocumentData | null {
+		return this._data;
+	}
+
+	// REST document as received from the backend, used to build bundles.
+	_getDocument(): FirestoreDocument | null {
+		return this._document;
+	}
+
+	_isPartial(): boolean {
+		return this._partial;
+	}
 }
 
-export class QueryDocumentSnapshot<
-	T extends DocumentData = DocumentData
-> extends DocumentSnapshot<T> {
+export class QueryDocumentSnapshot<T = DocumentData> extends DocumentSnapshot<T> {
 	constructor(options: {
 		ref: DocumentReference<T>;
-		data: T;
+		data: DocumentData;
 		createTime?: Timestamp | null;
 		updateTime?: Timestamp | null;
 		readTime?: Timestamp | null;
+		metadata?: SnapshotMetadata;
+		document?: FirestoreDocument | null;
 	}) {
 		super({
 			ref: options.ref,
 			exists: true,
 			data: options.data,
+			metadata: options.metadata,
 			createTime: options.createTime,
 			updateTime: options.updateTime,
-			readTime: options.readTime
+			readTime: options.readTime,
+			document: options.document
 		});
 	}
 
-	override data(): DocumentSnapshotData<T> {
-		return super.data() as DocumentSnapshotData<T>;
+	override data(): T {
+		return super.data() as T;
 	}
 }
 
 export type DocumentChangeType = 'added' | 'modified' | 'removed';
 
-export type DocumentChange<T extends DocumentData = DocumentData> = {
+export type DocumentChange<T = DocumentData> = {
 	type: DocumentChangeType;
 	doc: QueryDocumentSnapshot<T>;
 	oldIndex: number;
 	newIndex: number;
 };
 
-function snapshotKey(snapshot: QueryDocumentSnapshot): string {
+type WatchedDocument<T> = {
+	ref: DocumentReference<T>;
+	data: DocumentData;
+	createTime: Timestamp | null;
+	updateTime: Timestamp | null;
+	document: FirestoreDocument;
+};
+
+function snapshotKey<T>(snapshot: QueryDocumentSnapshot<T>): string {
 	return snapshot.ref.path;
 }
 
@@ -171,7 +326,7 @@ function timestampKey(value: Timestamp | undefined): string | null {
 	return value ? value.valueOf() : null;
 }
 
-function computeDocChanges<T extends DocumentData>(
+function computeDocChanges<T>(
 	previous: QuerySnapshot<T>,
 	nextDocs: QueryDocumentSnapshot<T>[]
 ): Array<DocumentChange<T>> {
@@ -323,10 +478,13 @@ function orderRank(value: unknown): number {
 	if (Array.isArray(value)) {
 		return 8;
 	}
-	if (isPlainObject(value)) {
+	if (value instanceof VectorValue) {
 		return 9;
 	}
-	return 10;
+	if (isPlainObject(value)) {
+		return 10;
+	}
+	return 11;
 }
 
 function compareBytes(a: Bytes, b: Bytes): number {
@@ -362,6 +520,20 @@ function compareStrings(a: string, b: string): number {
 	return a < b ? -1 : 1;
 }
 
+// Document keys order segment by segment, so `a/b` sorts before `a-c` even though `-` < `/`.
+function compareDocumentPaths(a: string, b: string): number {
+	const aSegments = a.split('/');
+	const bSegments = b.split('/');
+	const length = Math.min(aSegments.length, bSegments.length);
+	for (let i = 0; i < length; i += 1) {
+		const cmp = compareStrings(aSegments[i], bSegments[i]);
+		if (cmp !== 0) {
+			return cmp;
+		}
+	}
+	return aSegments.length - bSegments.length;
+}
+
 function compareFirestoreValues(aRaw: unknown, bRaw: unknown): number {
 	const a = aRaw === undefined ? null : aRaw;
 	const b = bRaw === undefined ? null : bRaw;
@@ -407,7 +579,7 @@ function compareFirestoreValues(aRaw: unknown, bRaw: unknown): number {
 		return compareBytes(a as Bytes, b as Bytes);
 	}
 	if (aRank === 6) {
-		return compareStrings((a as DocumentReference).path, (b as DocumentReference).path);
+		return compareDocumentPaths((a as DocumentReference).path, (b as DocumentReference).path);
 	}
 	if (aRank === 7) {
 		const aGeo = a as GeoPoint;
@@ -436,6 +608,20 @@ function compareFirestoreValues(aRaw: unknown, bRaw: unknown): number {
 		return aArr.length < bArr.length ? -1 : 1;
 	}
 	if (aRank === 9) {
+		const aVec = (a as VectorValue).toArray();
+		const bVec = (b as VectorValue).toArray();
+		if (aVec.length !== bVec.length) {
+			return aVec.length < bVec.length ? -1 : 1;
+		}
+		for (let i = 0; i < aVec.length; i += 1) {
+			const cmp = compareFirestoreValues(aVec[i], bVec[i]);
+			if (cmp !== 0) {
+				return cmp;
+			}
+		}
+		return 0;
+	}
+	if (aRank === 10) {
 		const aObj = a as Record<string, unknown>;
 		const bObj = b as Record<string, unknown>;
 		const aKeys = Object.keys(aObj).sort();
@@ -462,7 +648,7 @@ function compareFirestoreValues(aRaw: unknown, bRaw: unknown): number {
 	return compareStrings(aTag, bTag);
 }
 
-function compareQueryDocs<T extends DocumentData>(
+function compareQueryDocs<T>(
 	a: QueryDocumentSnapshot<T>,
 	b: QueryDocumentSnapshot<T>,
 	orderBy: Array<{ fieldPath: string; direction: OrderDirection; segments: string[] | null }>
@@ -471,11 +657,11 @@ function compareQueryDocs<T extends DocumentData>(
 		const aValue =
 			clause.fieldPath === '__name__'
 				? a.ref
-				: getValueAtPath(a.data() as unknown, clause.segments ?? []);
+				: getValueAtPath(a._getRawData(), clause.segments ?? []);
 		const bValue =
 			clause.fieldPath === '__name__'
 				? b.ref
-				: getValueAtPath(b.data() as unknown, clause.segments ?? []);
+				: getValueAtPath(b._getRawData(), clause.segments ?? []);
 
 		const cmp = compareFirestoreValues(aValue, bValue);
 		if (cmp === 0) {
@@ -486,18 +672,41 @@ function compareQueryDocs<T extends DocumentData>(
 	return 0;
 }
 
-export class QuerySnapshot<T extends DocumentData = DocumentData> {
+export class QuerySnapshot<T = DocumentData> {
 	readonly docs: QueryDocumentSnapshot<T>[];
 	readonly metadata: SnapshotMetadata;
 	private readonly changes: Array<DocumentChange<T>>;
+	private readonly _query: Query<T> | null;
+	private readonly _readTime: Timestamp | null;
+	private readonly excludesMetadataChanges: boolean;
 
 	constructor(
 		docs: QueryDocumentSnapshot<T>[],
-		options: { metadata?: SnapshotMetadata; changes?: Array<DocumentChange<T>> } = {}
+		options: {
+			query?: Query<T>;
+			readTime?: Timestamp | null;
+			metadata?: SnapshotMetadata;
+			changes?: Array<DocumentChange<T>>;
+			excludesMetadataChanges?: boolean;
+		} = {}
 	) {
 		this.docs = docs;
 		this.metadata = options.metadata ?? DEFAULT_SNAPSHOT_METADATA;
 		this.changes = options.changes ?? [];
+		this._query = options.query ?? null;
+		this._readTime = options.readTime ?? null;
+		this.excludesMetadataChanges = options.excludesMetadataChanges ?? false;
+	}
+
+	get query(): Query<T> {
+		if (!this._query) {
+			throw new Error('QuerySnapshot is not associated with a query.');
+		}
+		return this._query;
+	}
+
+	get readTime(): Timestamp | undefined {
+		return this._readTime ?? undefined;
 	}
 
 	get empty(): boolean {
@@ -514,12 +723,161 @@ export class QuerySnapshot<T extends DocumentData = DocumentData> {
 		}
 	}
 
+	// Server-side listeners never have pending writes, so documents never change through metadata
+	// alone and the option only has to be consistent with the listener that produced the snapshot.
 	docChanges(options: { includeMetadataChanges?: boolean } = {}): Array<DocumentChange<T>> {
-		void options;
+		if (options.includeMetadataChanges && this.excludesMetadataChanges) {
+			throw new Error(
+				'To include metadata changes with your document changes, you must also pass { includeMetadataChanges: true } to onSnapshot().'
+			);
+		}
 		return [...this.changes];
 	}
+
+	// Rebuilds this snapshot with changes relative to `previous`, for consumers that skipped the
+	// snapshots in between.
+	_withChangesSince(previous: QuerySnapshot<T> | null): QuerySnapshot<T> {
+		return new QuerySnapshot<T>(this.docs, {
+			query: this._query ?? undefined,
+			readTime: this._readTime,
+			metadata: this.metadata,
+			changes:
+				previous === null
+					? this.docs.map((doc, index) => ({ type: 'added', doc, oldIndex: -1, newIndex: index }))
+					: computeDocChanges(previous, this.docs),
+			excludesMetadataChanges: this.excludesMetadataChanges
+		});
+	}
 }
 
+type SnapshotSubscriber<S> = (
+	onNext: (snapshot: S) => void,
+	onError: (error: unknown) => void
+) => () => void;
+
+// Adapts an `onSnapshot` listener to an async iterator. The listener is attached on the first
+// `next()` and detached by `return()`, e.g. when a `for await` loop exits. Snapshots that arrive
+// while the consumer is busy are coalesced into the latest one, so a slow consumer holds at most
+// one pending snapshot.
+class SnapshotIterator<S> implements AsyncIterableIterator<S> {
+	private readonly subscribe: SnapshotSubscriber<S>;
+	private readonly coalesce: (latest: S, previous: S | null) => S;
+	private unsubscribe: (() => void) | null = null;
+	private pending: S | null = null;
+	private coalesced = false;
+	private previous: S | null = null;
+	private failure: { error: unknown } | null = null;
+	private done = false;
+	private waiter: {
+		resolve: (result: IteratorResult<S>) => void;
+		reject: (error: unknown) => void;
+	} | null = null;
+
+	constructor(subscribe: SnapshotSubscriber<S>, coalesce: (latest: S, previous: S | null) => S) {
+		this.subscribe = subscribe;
+		this.coalesce = coalesce;
+	}
+
+	[Symbol.asyncIterator](): this {
+		return this;
+	}
+
+	async next(): Promise<IteratorResult<S>> {
+		if (!this.done && !this.unsubscribe) {
+			this.unsubscribe = this.subscribe(
+				(snapshot) => {
+					this.handleNext(snapshot);
+				},
+				(error) => {
+					this.handleError(error);
+				}
+			);
+		}
+		if (this.pending !== null) {
+			return { done: false, value: this.take() };
+		}
+		if (this.failure) {
+			const { error } = this.failure;
+			this.failure = null;
+			throw error;
+		}
+		if (this.done) {
+			return { done: true, value: undefined };
+		}
+		return await new Promise((resolve, reject) => {
+			this.waiter = { resolve, reject };
+		});
+	}
+
+	return(): Promise<IteratorResult<S>> {
+		this.finish();
+		this.pending = null;
+		this.failure = null;
+		const waiter = this.waiter;
+		this.waiter = null;
+		waiter?.resolve({ done: true, value: undefined });
+		return Promise.resolve({ done: true, value: undefined });
+	}
+
+	private handleNext(snapshot: S): void {
+		if (this.done) {
+			return;
+		}
+		this.coalesced = this.pending !== null;
+		this.pending = snapshot;
+		const waiter = this.waiter;
+		if (waiter) {
+			this.waiter = null;
+			waiter.resolve({ done: false, value: this.take() });
+		}
+	}
+
+	private handleError(error: unknown): void {
+		if (this.done) {
+			return;
+		}
+		this.finish();
+		const waiter = this.waiter;
+		if (waiter) {
+			this.waiter = null;
+			waiter.reject(error);
+			return;
+		}
+		this.failure = { error };
+	}
+
+	private take(): S {
+		const latest = this.pending as S;
+		const value = this.coalesced ? this.coalesce(latest, this.previous) : latest;
+		this.pending = null;
+		this.coalesced = false;
+		this.previous = value;
+		return value;
+	}
+
+	private finish(): void {
+		this.done = true;
+		this.unsubscribe?.();
+	}
+}
+
+const VectorQueryOptionsSchema = z.object({
+	vectorField: z.union([z.string().trim().min(1), z.instanceof(FieldPath)]),
+	queryVector: z.union([z.instanceof(VectorValue), z.array(z.number())]),
+	limit: z.number().int().positive().max(1000),
+	distanceMeasure: z.enum(['EUCLIDEAN', 'COSINE', 'DOT_PRODUCT']),
+	distanceResultField: z.union([z.string().trim().min(1), z.instanceof(FieldPath)]).optional(),
+	distanceThreshold: z.number().optional()
+});
+
+const DEFAULT_DATABASE_ID = '(default)';
+
+const DatabaseIdSchema = z
+	.string()
+	.trim()
+	.min(1)
+	.refine((value) => !value.includes('/'), { message: 'Database id must not contain "/".' });
+
 const RelativeDocumentPathSchema = z
 	.string()
 	.trim()
@@ -568,28 +926,90 @@ function parseTimestampOrNull(value: string | undefined): Timestamp | null {
 	if (!value) {
 		return null;
 	}
-	const date = new Date(value);
-	if (Number.isNaN(date.getTime())) {
-		return null;
+	return decodeTimestamp(value);
+}
+
+// Point-in-time read rules depend on the database's PITR setting, so the backend validates them.
+function encodeReadTime(readTime: Timestamp | undefined): string | undefined {
+	return readTime ? encodeTimestamp(readTime) : undefined;
+}
+
+function encodeFieldMask(fieldMask: Array<string | FieldPath> | undefined): string[] | undefined {
+	return fieldMask?.map((fieldPath) =>
+		fieldPath instanceof FieldPath ? fieldPath.toString() : fieldPath
+	);
+}
+
+async function fetchDocuments<T>(
+	firestore: Firestore,
+	refs: Array<DocumentReference<T>>,
+	options: { transaction?: string; readTime?: string; fieldMask?: Array<string | FieldPath> }
+): Promise<Array<DocumentSnapshot<T>>> {
+	const rest = firestore._getRestClient();
+	const docNames = refs.map((ref) => rest.documentResourceName(ref.path));
+	const responses = await rest.batchGetDocuments({
+		documentNames: docNames,
+		transaction: options.transaction,
+		readTime: options.readTime,
+		mask: encodeFieldMask(options.fieldMask)
+	});
+
+	const byName = new Map<string, BatchGetDocumentsResponse>();
+	for (const resp of responses) {
+		const name = resp.found?.name ?? resp.missing;
+		if (name) {
+			byName.set(name, resp);
+		}
 	}
-	return Timestamp.fromDate(date);
+
+	return refs.map((ref, i) => {
+		const resp = byName.get(docNames[i]);
+		if (!resp) {
+			throw new Error(`Did not receive document for '${ref.path}'.`);
+		}
+		if (!resp.found) {
+			return new DocumentSnapshot<T>({
+				ref,
+				exists: false,
+				data: null,
+				readTime: parseTimestampOrNull(resp.readTime)
+			});
+		}
+		return new DocumentSnapshot<T>({
+			ref,
+			exists: true,
+			data: decodeDocumentData(resp.found, firestore),
+			createTime: parseTimestampOrNull(resp.found.createTime),
+			updateTime: parseTimestampOrNull(resp.found.updateTime),
+			readTime: parseTimestampOrNull(resp.readTime),
+			document: resp.found,
+			partial: options.fieldMask !== undefined
+		});
+	});
 }
 
 function decodeDocumentData(doc: FirestoreDocument, firestore: Firestore): DocumentData {
 	const rawFields = doc.fields ?? {};
 	const out: Record<string, unknown> = {};
-	const rest = firestore._getRestClient();
-	const databaseResourceName = rest.databaseResourceName();
-	const referenceValueResolver = (resourceName: string) => {
-		const docPath = decodeDocumentPathFromName(resourceName, databaseResourceName);
-		return new DocumentReference({ firestore, path: docPath });
-	};
+	const referenceValueResolver = createReferenceValueResolver(firestore);
 	for (const [key, value] of Object.entries(rawFields)) {
 		out[key] = fromFirestoreValue(value, { referenceValueResolver });
 	}
 	return out;
 }
 
+// References into another database can't be represented as a DocumentReference of this
+// instance, so they decode to their raw resource name.
+function createReferenceValueResolver(firestore: Firestore): (resourceName: string) => unknown {
+	const prefix = `${firestore._getRestClient().databaseResourceName()}/documents/`;
+	return (resourceName: string) => {
+		if (!resourceName.startsWith(prefix)) {
+			return resourceName;
+		}
+		return new DocumentReference({ firestore, path: resourceName.slice(prefix.length) });
+	};
+}
+
 function baseUrlFromEnv(): string {
 	const emulatorHost = (globalThis as unknown as { process?: { env?: Record<string, string> } })
 		.process?.env?.FIRESTORE_EMULATOR_HOST;
@@ -603,13 +1023,16 @@ function baseUrlFromEnv(): string {
 export class Firestore {
 	private readonly rest: FirestoreRestClient;
 	private readonly projectId: string;
+	private readonly _databaseId: string;
 	private readonly baseUrl: string;
 	private readonly accessTokenProvider: () => Promise<string | null>;
 	private ignoreUndefinedProperties = false;
+	private watchStream: WatchStream | null = null;
 
-	constructor(options: { app: App; baseUrl?: string }) {
+	constructor(options: { app: App; baseUrl?: string; databaseId?: string }) {
 		const serviceAccount = options.app.options.credential.getServiceAccount();
 		this.projectId = options.app.options.projectId ?? serviceAccount.projectId;
+		this._databaseId = DatabaseIdSchema.parse(options.databaseId ?? DEFAULT_DATABASE_ID);
 		this.baseUrl = options.baseUrl ?? baseUrlFromEnv();
 
 		this.accessTokenProvider = async () => {
@@ -631,25 +1054,28 @@ export class Firestore {
 
 		this.rest = new FirestoreRestClient({
 			projectId: this.projectId,
+			databaseId: this._databaseId,
 			baseUrl: this.baseUrl,
 			getAccessToken: this.accessTokenProvider
 		});
 	}
 
+	get databaseId(): string {
+		return this._databaseId;
+	}
+
 	settings(options: { ignoreUndefinedProperties?: boolean }): void {
 		if (typeof options.ignoreUndefinedProperties === 'boolean') {
 			this.ignoreUndefinedProperties = options.ignoreUndefinedProperties;
 		}
 	}
 
-	collection<T extends DocumentData = DocumentData>(
-		collectionPath: string
-	): CollectionReference<T> {
+	collection<T = DocumentData>(collectionPath: string): CollectionReference<T> {
 		const validated = RelativeCollectionPathSchema.parse(collectionPath);
 		return new CollectionReference<T>({ firestore: this, path: validated });
 	}
 
-	collectionGroup<T extends DocumentData = DocumentData>(collectionId: string): Query<T> {
+	collectionGroup<T = DocumentData>(collectionId: string): Query<T> {
 		const id = z
 			.string()
 			.trim()
@@ -661,7 +1087,7 @@ export class Firestore {
 		return new Query<T>({ firestore: this, collectionPath: id, allDescendants: true });
 	}
 
-	doc<T extends DocumentData = DocumentData>(documentPath: string): DocumentReference<T> {
+	doc<T = DocumentData>(documentPath: string): DocumentReference<T> {
 		const validated = RelativeDocumentPathSchema.parse(documentPath);
 		return new DocumentReference<T>({ firestore: this, path: validated });
 	}
@@ -674,62 +1100,119 @@ export class Firestore {
 		return new BulkWriter(this, options);
 	}
 
+	async recursiveDelete(
+		ref: CollectionReference<unknown> | DocumentReference<unknown>,
+		bulkWriter?: BulkWriter,
+		options: RecursiveDeleteOptions = {}
+	): Promise<RecursiveDeleteResult> {
+		const maxDocuments = options.maxDocuments ?? Number.POSITIVE_INFINITY;
+		if (
+			maxDocuments !== Number.POSITIVE_INFINITY &&
+			(!Number.isInteger(maxDocuments) || maxDocuments < 1)
+		) {
+			throw new Error('recursiveDelete() maxDocuments must be a positive integer.');
+		}
+		const rest = this._getRestClient();
+		const writer = bulkWriter ?? this.bulkWriter();
+		const databaseResourceName = rest.databaseResourceName();
+		const failures: FirestoreError[] = [];
+		// `queuedCount` bounds the walk by `maxDocuments`; only successful deletes are reported.
+		let queuedCount = 0;
+		let deletedCount = 0;
+		const deleteDocument = (documentRef: DocumentReference<unknown>) => {
+			queuedCount += 1;
+			writer.delete(documentRef).then(
+				() => {
+					deletedCount += 1;
+				},
+				(error: unknown) => {
+					failures.push(toFirestoreError(error, 'batchWrite'));
+				}
+			);
+		};
+
+		let lastName: string | null = null;
+		let done = false;
+		while (queuedCount < maxDocuments) {
+			const pageSize = Math.min(RECURSIVE_DELETE_PAGE_SIZE, maxDocuments - queuedCount);
+			const page = await rest.runQuery(buildDescendantsQuery(rest, ref, pageSize, lastName));
+			const names = page.flatMap((entry) => (entry.document ? [entry.document.name] : []));
+			for (const name of names) {
+				const path = decodeDocumentPathFromName(name, databaseResourceName);
+				deleteDocument(new DocumentReference({ firestore: this, path }));
+			}
+			await writer.flush();
+			lastName = names.at(-1) ?? lastName;
+			if (names.length < pageSize) {
+				done = true;
+				break;
+			}
+		}
+
+		if (done && ref instanceof DocumentReference) {
+			if (queuedCount < maxDocuments) {
+				deleteDocument(ref);
+			} else {
+				done = false;
+			}
+		}
+		if (bulkWriter) {
+			await writer.flush();
+		} else {
+			await writer.close();
+		}
+
+		const lastFailure = failures.at(-1);
+		if (lastFailure) {
+			const error = new FirestoreError(
+				`${String(failures.length)} ${failures.length === 1 ? 'delete' : 'deletes'} failed. ` +
+					`The last delete failed with: ${lastFailure.message}`,
+				{
+					apiStatus: lastFailure.apiStatus,
+					httpStatus: lastFailure.httpStatus,
+					method: lastFailure.method,
+					cause: lastFailure
+				}
+			);
+			error.details.push(...lastFailure.details);
+			throw error;
+		}
+		return { deletedCount, done };
+	}
+
 	bundle(bundleId: string = autoId()): BundleBuilder {
 		return new BundleBuilder(bundleId);
 	}
 
-	async getAll<T extends DocumentData>(
-		...refs: Array<DocumentReference<T>>
+	async getAll<T>(
+		...refsOrOptions: Array<DocumentReference<T> | DocumentReadOptions>
 	): Promise<Array<DocumentSnapshot<T>>> {
+		const last = refsOrOptions.at(-1);
+		const options = last && !(last instanceof DocumentReference) ? last : {};
+		const refs = refsOrOptions.filter(
+			(entry): entry is DocumentReference<T> => entry instanceof DocumentReference
+		);
 		if (refs.length === 0) {
 			throw new Error('Firestore.getAll() requires at least one DocumentReference.');
 		}
 
 		const allSameFirestore = refs.every((ref) => ref.firestore === this);
 		if (!allSameFirestore) {
-			throw new Error('Firestore.getAll() requires all DocumentReferences to belong to the same Firestore instance.');
-		}
-
-		const rest = this._getRestClient();
-		const docNames = refs.map((ref) => rest.documentResourceName(ref.path));
-		const responses = await rest.batchGetDocuments({ documentNames: docNames });
-
-		const byName = new Map<string, BatchGetDocumentsResponse>();
-		for (const resp of responses) {
-			const name = resp.found?.name ?? resp.missing;
-			if (name) {
-				byName.set(name, resp);
-			}
+			throw new Error(
+				'Firestore.getAll() requires all DocumentReferences to belong to the same Firestore instance.'
+			);
 		}
 
-		return refs.map((ref, i) => {
-			const resp = byName.get(docNames[i]);
-			if (!resp) {
-				throw new Error(`Did not receive document for '${ref.path}'.`);
-			}
-			if (!resp.found) {
-				return new DocumentSnapshot<T>({
-					ref,
-					exists: false,
-					data: null,
-					readTime: parseTimestampOrNull(resp.readTime)
-				});
-			}
-			return new DocumentSnapshot<T>({
-				ref,
-				exists: true,
-				data: decodeDocumentData(resp.found, this) as T,
-				createTime: parseTimestampOrNull(resp.found.createTime),
-				updateTime: parseTimestampOrNull(resp.found.updateTime),
-				readTime: parseTimestampOrNull(resp.readTime)
-			});
+		return await fetchDocuments(this, refs, {
+			readTime: encodeReadTime(options.readTime),
+			fieldMask: options.fieldMask
 		});
 	}
 
 	async listCollections(): Promise<Array<CollectionReference>> {
 		const rest = this._getRestClient();
 		const parentResourceName = `${rest.databaseResourceName()}/documents`;
-		const { collectionIds } = await rest.listCollectionIds({ parentResourceName });
+		const collectionIds = await listAllCollectionIds(rest, parentResourceName);
 		return collectionIds.map((id) => this.collection(id));
 	}
 
@@ -737,34 +1220,47 @@ export class Firestore {
 		updateFn: (tx: Transaction) => Promise<T>,
 		options: TransactionOptions = {}
 	): Promise<T> {
-		const maxAttempts = options.maxAttempts ?? 5;
+		const maxAttempts = (options.readOnly ? undefined : options.maxAttempts) ?? 5;
 		let attempt = 0;
 		let lastError: unknown = null;
 
+		if (options.readOnly && options.readTime) {
+			const readTime = encodeReadTime(options.readTime);
+			return await updateFn(new Transaction(this, null, { readOnly: true, readTime }));
+		}
+
+		const rest = this._getRestClient();
+		let previousTransactionId: string | null = null;
 		while (attempt < maxAttempts) {
 			attempt += 1;
+			let transactionId: string | null = null;
 			try {
-				const transactionId = await this.rest.beginTransaction();
-				const tx = new Transaction(this, transactionId);
+				transactionId = await rest.beginTransaction(
+					options.readOnly
+						? { readOnly: {} }
+						: {
+								readWrite: previousTransactionId ? { retryTransaction: previousTransactionId } : {}
+							}
+				);
+				const tx = new Transaction(this, transactionId, { readOnly: options.readOnly ?? false });
 				const result = await updateFn(tx);
 				await tx.commit();
 				return result;
 			} catch (error) {
 				lastError = error;
-				const apiStatus =
-					error instanceof FirestoreApiError
-						? error.apiStatus
-						: error instanceof Error
-							? null
-							: null;
+				if (transactionId) {
+					previousTransactionId = transactionId;
+					await rest.rollback({ transaction: transactionId }).catch(() => undefined);
+				}
+				const firestoreError = error instanceof FirestoreError ? error : null;
+				const code = firestoreError?.code;
 				const retryable =
-					apiStatus === 'ABORTED' ||
-					apiStatus === 'UNAVAILABLE' ||
-					apiStatus === 'DEADLINE_EXCEEDED';
+					code === 'aborted' || code === 'unavailable' || code === 'deadline-exceeded';
 				if (!retryable || attempt >= maxAttempts) {
 					throw error;
 				}
-				const backoffMs = Math.min(1000 * 2 ** (attempt - 1), 10_000);
+				const backoffMs =
+					firestoreError?.retryDelayMs ?? Math.min(1000 * 2 ** (attempt - 1), 10_000);
 				await sleep(backoffMs);
 			}
 		}
@@ -789,18 +1285,29 @@ export class Firestore {
 		return await this.accessTokenProvider();
 	}
 
+	_getWatchStream(): WatchStream {
+		this.watchStream ??= new WatchStream(this);
+		return this.watchStream;
+	}
+
 	_ignoreUndefinedProperties(): boolean {
 		return this.ignoreUndefinedProperties;
 	}
 }
 
-export class DocumentReference<T extends DocumentData = DocumentData> {
+export class DocumentReference<T = DocumentData> {
 	readonly firestore: Firestore;
 	readonly path: string;
+	private readonly converter: FirestoreDataConverter<T> | null;
 
-	constructor(options: { firestore: Firestore; path: string }) {
+	constructor(options: {
+		firestore: Firestore;
+		path: string;
+		converter?: FirestoreDataConverter<T> | null;
+	}) {
 		this.firestore = options.firestore;
 		this.path = options.path;
+		this.converter = options.converter ?? null;
 	}
 
 	get id(): string {
@@ -815,7 +1322,23 @@ export class DocumentReference<T extends DocumentData = DocumentData> {
 	get parent(): CollectionReference<T> {
 		const segments = this.path.split('/').filter(Boolean);
 		const parentPath = segments.slice(0, -1).join('/');
-		return new CollectionReference<T>({ firestore: this.firestore, path: parentPath });
+		return new CollectionReference<T>({
+			firestore: this.firestore,
+			path: parentPath,
+			converter: this.converter
+		});
+	}
+
+	withConverter(converter: null): DocumentReference;
+	withConverter<U, V extends DocumentData = DocumentData>(
+		converter: FirestoreDataConverter<U, V>
+	): DocumentReference<U>;
+	withConverter<U>(converter: FirestoreDataConverter<U> | null): DocumentReference<U> {
+		return new DocumentReference<U>({ firestore: this.firestore, path: this.path, converter });
+	}
+
+	_getConverter(): FirestoreDataConverter<T> | null {
+		return this.converter;
 	}
 
 	collection<U extends DocumentData = DocumentData>(
@@ -828,32 +1351,45 @@ export class DocumentReference<T extends DocumentData = DocumentData> {
 		});
 	}
 
-	async get(): Promise<DocumentSnapshot<T>> {
-		const doc = await this.firestore._getRestClient().getDocument({ documentPath: this.path });
+	async get(options: DocumentReadOptions = {}): Promise<DocumentSnapshot<T>> {
+		const doc = await this.firestore._getRestClient().getDocument({
+			documentPath: this.path,
+			readTime: encodeReadTime(options.readTime),
+			mask: encodeFieldMask(options.fieldMask)
+		});
+		const readTime = options.readTime ?? null;
 		if (!doc) {
-			return new DocumentSnapshot<T>({ ref: this, exists: false, data: null });
+			return new DocumentSnapshot<T>({ ref: this, exists: false, data: null, readTime });
 		}
 		return new DocumentSnapshot<T>({
 			ref: this,
 			exists: true,
-			data: decodeDocumentData(doc, this.firestore) as T,
+			data: decodeDocumentData(doc, this.firestore),
 			createTime: parseTimestampOrNull(doc.createTime),
-			updateTime: parseTimestampOrNull(doc.updateTime)
+			updateTime: parseTimestampOrNull(doc.updateTime),
+			readTime,
+			document: doc,
+			partial: options.fieldMask !== undefined
 		});
 	}
 
-	async create(data: T): Promise<WriteResult> {
+	async create(data: WithFieldValue<T>): Promise<WriteResult> {
 		const encoded = encodeSetData({
-			data,
+			data: toFirestoreData(this, data),
 			merge: false,
 			ignoreUndefinedProperties: this.firestore._ignoreUndefinedProperties()
 		});
-		return await this.writeUpdate(encoded, { precondition: 'not-exists' });
+		return await this.writeUpdate(encoded, { precondition: { exists: false } });
 	}
 
-	async set(data: T, options: SetOptions = {}): Promise<WriteResult> {
+	async set(data: WithFieldValue<T>): Promise<WriteResult>;
+	async set(data: PartialWithFieldValue<T>, options: SetOptions): Promise<WriteResult>;
+	async set(
+		data: WithFieldValue<T> | PartialWithFieldValue<T>,
+		options: SetOptions = {}
+	): Promise<WriteResult> {
 		const encoded = encodeSetData({
-			data,
+			data: toFirestoreData(this, data, options),
 			merge: options.merge ?? false,
 			mergeFields: options.mergeFields,
 			ignoreUndefinedProperties: this.firestore._ignoreUndefinedProperties()
@@ -861,11 +1397,11 @@ export class DocumentReference<T extends DocumentData = DocumentData> {
 		return await this.writeUpdate(encoded, { precondition: null });
 	}
 
-	async update(data: Record<string, unknown>): Promise<WriteResult>;
+	async update(data: Record<string, unknown>, precondition?: Precondition): Promise<WriteResult>;
 	async update(
 		field: string | FieldPath,
 		value: unknown,
-		...moreFieldsAndValues: unknown[]
+		...moreFieldsAndValuesOrPrecondition: unknown[]
 	): Promise<WriteResult>;
 	async update(
 		dataOrField: Record<string, unknown> | string | FieldPath,
@@ -873,43 +1409,23 @@ export class DocumentReference<T extends DocumentData = DocumentData> {
 		...moreFieldsAndValues: unknown[]
 	): Promise<WriteResult> {
 		const ignoreUndefinedProperties = this.firestore._ignoreUndefinedProperties();
-		let data: Record<string, unknown>;
-
-		if (typeof dataOrField === 'string' || dataOrField instanceof FieldPath) {
-			const pairs = [dataOrField, value, ...moreFieldsAndValues];
-			if (pairs.length < 2 || pairs.length % 2 !== 0) {
-				throw new Error('update() requires field/value pairs.');
-			}
-			const out: Record<string, unknown> = {};
-			for (let i = 0; i < pairs.length; i += 2) {
-				const fieldPath = pairs[i];
-				const fieldValue = pairs[i + 1];
-				if (!(typeof fieldPath === 'string' || fieldPath instanceof FieldPath)) {
-					throw new Error('update() field paths must be strings or FieldPath instances.');
-				}
-				const key = fieldPath instanceof FieldPath ? fieldPath.toString() : fieldPath;
-				out[key] = fieldValue;
-			}
-			data = out;
-		} else {
-			data = dataOrField;
-		}
+		const { data, precondition } = parseUpdateArguments(dataOrField, value, moreFieldsAndValues);
 
 		const encoded = encodeUpdateData({ data, ignoreUndefinedProperties });
-		return await this.writeUpdate(encoded, { precondition: 'exists' });
+		return await this.writeUpdate(encoded, { precondition });
 	}
 
-	async delete(): Promise<WriteResult> {
+	async delete(precondition?: Precondition): Promise<WriteResult> {
 		const rest = this.firestore._getRestClient();
-		const docName = rest.documentResourceName(this.path);
-		const resp = await rest.commit({ writes: [{ delete: docName }] });
-		return writeResultFromCommit(resp, 0);
+		const write = buildDeleteWrite(this.firestore, this, precondition);
+		const resp = await rest.commit({ writes: [write] });
+		return writeResultFromCommit(this.firestore, resp, [write], 0);
 	}
 
 	async listCollections(): Promise<Array<CollectionReference>> {
 		const rest = this.firestore._getRestClient();
 		const parentResourceName = rest.documentResourceName(this.path);
-		const { collectionIds } = await rest.listCollectionIds({ parentResourceName });
+		const collectionIds = await listAllCollectionIds(rest, parentResourceName);
 		return collectionIds.map((id) => this.collection(id));
 	}
 
@@ -918,7 +1434,7 @@ export class DocumentReference<T extends DocumentData = DocumentData> {
 		onError?: (error: unknown) => void
 	): () => void;
 	onSnapshot(
-		_options: { includeMetadataChanges?: boolean },
+		options: { includeMetadataChanges?: boolean },
 		onNext: (snapshot: DocumentSnapshot<T>) => void,
 		onError?: (error: unknown) => void
 	): () => void;
@@ -937,6 +1453,10 @@ export class DocumentReference<T extends DocumentData = DocumentData> {
 			typeof optionsOrOnNext === 'function'
 				? (onNextOrOnError as ((error: unknown) => void) | undefined)
 				: maybeOnError;
+		const includeMetadataChanges =
+			typeof optionsOrOnNext === 'function'
+				? false
+				: (optionsOrOnNext.includeMetadataChanges ?? false);
 
 		let unsubscribe: (() => void) | null = null;
 		let cancelled = false;
@@ -944,18 +1464,30 @@ export class DocumentReference<T extends DocumentData = DocumentData> {
 		void listenToDocument({
 			firestore: this.firestore,
 			documentPath: this.path,
-			referenceValueResolver: (resourceName: string) => {
-				const rest = this.firestore._getRestClient();
-				const docPath = decodeDocumentPathFromName(resourceName, rest.databaseResourceName());
-				return new DocumentReference({ firestore: this.firestore, path: docPath });
-			},
+			includeMetadataChanges,
 			onNext: (event) => {
+				const readTime = parseTimestampOrNull(event.readTime);
+				const metadata = new SnapshotMetadata(event.fromCache, false);
+				const doc = event.document;
 				onNext(
-					new DocumentSnapshot<T>({
-						ref: this,
-						exists: event.exists,
-						data: (event.exists ? (event.data as T) : null) ?? null
-					})
+					doc
+						? new DocumentSnapshot<T>({
+								ref: this,
+								exists: true,
+								data: decodeDocumentData(doc, this.firestore),
+								createTime: parseTimestampOrNull(doc.createTime),
+								updateTime: parseTimestampOrNull(doc.updateTime),
+								readTime,
+								metadata,
+								document: doc
+							})
+						: new DocumentSnapshot<T>({
+								ref: this,
+								exists: false,
+								data: null,
+								readTime,
+								metadata
+							})
 				);
 			},
 			onError
@@ -976,16 +1508,25 @@ export class DocumentReference<T extends DocumentData = DocumentData> {
 		};
 	}
 
+	snapshots(
+		options: { includeMetadataChanges?: boolean } = {}
+	): AsyncIterableIterator<DocumentSnapshot<T>> {
+		return new SnapshotIterator<DocumentSnapshot<T>>(
+			(onNext, onError) => this.onSnapshot(options, onNext, onError),
+			(latest) => latest
+		);
+	}
+
 	private async writeUpdate(
 		encoded: EncodedDocumentWrite,
-		options: { precondition: 'exists' | 'not-exists' | null }
+		options: { precondition: Precondition | null }
 	): Promise<WriteResult> {
 		const rest = this.firestore._getRestClient();
 		const write = buildUpdateWrite(this.firestore, this, encoded, {
 			precondition: options.precondition
 		});
 		const resp = await rest.commit({ writes: [write] });
-		return writeResultFromCommit(resp, 0);
+		return writeResultFromCommit(this.firestore, resp, [write], 0);
 	}
 }
 
@@ -1009,7 +1550,16 @@ function parseCursorConstraint(inclusive: boolean, args: unknown[]): CursorConst
 	return { kind: 'values', inclusive, values: args };
 }
 
-export class Query<T extends DocumentData = DocumentData> {
+// Limbo re-queries are retried on these codes; other failures are reported to the listener.
+const RETRYABLE_REFILL_CODES = new Set<FirestoreErrorCode>([
+	'aborted',
+	'unavailable',
+	'deadline-exceeded',
+	'internal',
+	'unknown'
+]);
+
+export class Query<T = DocumentData> {
 	readonly firestore: Firestore;
 	protected readonly collectionPath: string;
 	private readonly whereFilter: FilterNode | null;
@@ -1021,6 +1571,8 @@ export class Query<T extends DocumentData = DocumentData> {
 	private readonly allDescendants: boolean;
 	private readonly startAtBound: CursorConstraint | null;
 	private readonly endAtBound: CursorConstraint | null;
+	private readonly findNearestClause: FindNearestClause | null;
+	protected readonly converter: FirestoreDataConverter<T> | null;
 
 	constructor(options: {
 		firestore: Firestore;
@@ -1034,6 +1586,8 @@ export class Query<T extends DocumentData = DocumentData> {
 		allDescendants?: boolean;
 		startAt?: CursorConstraint | null;
 		endAt?: CursorConstraint | null;
+		findNearest?: FindNearestClause | null;
+		converter?: FirestoreDataConverter<T> | null;
 	}) {
 		this.firestore = options.firestore;
 		this.collectionPath = options.collectionPath;
@@ -1046,6 +1600,30 @@ export class Query<T extends DocumentData = DocumentData> {
 		this.allDescendants = options.allDescendants ?? false;
 		this.startAtBound = options.startAt ?? null;
 		this.endAtBound = options.endAt ?? null;
+		this.findNearestClause = options.findNearest ?? null;
+		this.converter = options.converter ?? null;
+	}
+
+	withConverter(converter: null): Query;
+	withConverter<U, V extends DocumentData = DocumentData>(
+		converter: FirestoreDataConverter<U, V>
+	): Query<U>;
+	withConverter<U>(converter: FirestoreDataConverter<U> | null): Query<U> {
+		return new Query<U>({
+			firestore: this.firestore,
+			collectionPath: this.collectionPath,
+			where: this.whereFilter,
+			orderBy: this.orderByClauses,
+			limit: this.limitValue,
+			limitToLast: this.limitToLastValue,
+			offset: this.offsetValue,
+			select: this.selectFieldPaths,
+			allDescendants: this.allDescendants,
+			startAt: this.startAtBound,
+			endAt: this.endAtBound,
+			findNearest: this.findNearestClause,
+			converter
+		});
 	}
 
 	where(fieldPath: string | FieldPath, op: WhereOp, value: unknown): Query<T>;
@@ -1089,7 +1667,9 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: this.selectFieldPaths,
 			allDescendants: this.allDescendants,
 			startAt: this.startAtBound,
-			endAt: this.endAtBound
+			endAt: this.endAtBound,
+			findNearest: this.findNearestClause,
+			converter: this.converter
 		});
 	}
 
@@ -1106,7 +1686,9 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: this.selectFieldPaths,
 			allDescendants: this.allDescendants,
 			startAt: this.startAtBound,
-			endAt: this.endAtBound
+			endAt: this.endAtBound,
+			findNearest: this.findNearestClause,
+			converter: this.converter
 		});
 	}
 
@@ -1122,11 +1704,14 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: this.selectFieldPaths,
 			allDescendants: this.allDescendants,
 			startAt: this.startAtBound,
-			endAt: this.endAtBound
+			endAt: this.endAtBound,
+			findNearest: this.findNearestClause,
+			converter: this.converter
 		});
 	}
 
 	limitToLast(limit: number): Query<T> {
+		this.assertNotVectorQuery('limitToLast');
 		return new Query<T>({
 			firestore: this.firestore,
 			collectionPath: this.collectionPath,
@@ -1138,11 +1723,14 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: this.selectFieldPaths,
 			allDescendants: this.allDescendants,
 			startAt: this.startAtBound,
-			endAt: this.endAtBound
+			endAt: this.endAtBound,
+			findNearest: this.findNearestClause,
+			converter: this.converter
 		});
 	}
 
 	offset(offset: number): Query<T> {
+		this.assertNotVectorQuery('offset');
 		const n = z.number().int().nonnegative().parse(offset);
 		return new Query<T>({
 			firestore: this.firestore,
@@ -1155,7 +1743,9 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: this.selectFieldPaths,
 			allDescendants: this.allDescendants,
 			startAt: this.startAtBound,
-			endAt: this.endAtBound
+			endAt: this.endAtBound,
+			findNearest: this.findNearestClause,
+			converter: this.converter
 		});
 	}
 
@@ -1174,13 +1764,67 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: normalized,
 			allDescendants: this.allDescendants,
 			startAt: this.startAtBound,
-			endAt: this.endAtBound
+			endAt: this.endAtBound,
+			findNearest: this.findNearestClause,
+			converter: this.converter
+		});
+	}
+
+	findNearest(options: VectorQueryOptions): VectorQuery<T> {
+		const parsed = VectorQueryOptionsSchema.parse(options);
+		const queryVector =
+			parsed.queryVector instanceof VectorValue
+				? parsed.queryVector
+				: new VectorValue(parsed.queryVector);
+		if (queryVector.toArray().length === 0) {
+			throw new Error('findNearest() requires a non-empty query vector.');
+		}
+		if (this.findNearestClause) {
+			throw new Error('findNearest() can only be called once per query.');
+		}
+		if (this.startAtBound || this.endAtBound) {
+			throw new Error(
+				'findNearest() cannot be combined with startAt(), startAfter(), endAt() or endBefore().'
+			);
+		}
+		if (this.limitToLastValue) {
+			throw new Error('findNearest() cannot be combined with limitToLast().');
+		}
+		if (this.offsetValue !== null) {
+			throw new Error('findNearest() cannot be combined with offset().');
+		}
+		const toPath = (fieldPath: string | FieldPath) =>
+			fieldPath instanceof FieldPath ? fieldPath.toString() : fieldPath;
+		const nearest = new Query<T>({
+			firestore: this.firestore,
+			collectionPath: this.collectionPath,
+			where: this.whereFilter,
+			orderBy: this.orderByClauses,
+			limit: this.limitValue,
+			limitToLast: this.limitToLastValue,
+			offset: this.offsetValue,
+			select: this.selectFieldPaths,
+			allDescendants: this.allDescendants,
+			startAt: this.startAtBound,
+			endAt: this.endAtBound,
+			findNearest: {
+				vectorField: toPath(parsed.vectorField),
+				queryVector,
+				limit: parsed.limit,
+				distanceMeasure: parsed.distanceMeasure,
+				distanceResultField:
+					parsed.distanceResultField === undefined ? null : toPath(parsed.distanceResultField),
+				distanceThreshold: parsed.distanceThreshold ?? null
+			},
+			converter: this.converter
 		});
+		return new VectorQuery<T>({ query: this, nearest });
 	}
 
 	startAt(snapshot: DocumentSnapshot<T>): Query<T>;
 	startAt(...fieldValues: unknown[]): Query<T>;
 	startAt(...args: unknown[]): Query<T> {
+		this.assertNotVectorQuery('startAt');
 		return new Query<T>({
 			firestore: this.firestore,
 			collectionPath: this.collectionPath,
@@ -1192,13 +1836,16 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: this.selectFieldPaths,
 			allDescendants: this.allDescendants,
 			startAt: parseCursorConstraint(true, args),
-			endAt: this.endAtBound
+			endAt: this.endAtBound,
+			findNearest: this.findNearestClause,
+			converter: this.converter
 		});
 	}
 
 	startAfter(snapshot: DocumentSnapshot<T>): Query<T>;
 	startAfter(...fieldValues: unknown[]): Query<T>;
 	startAfter(...args: unknown[]): Query<T> {
+		this.assertNotVectorQuery('startAfter');
 		return new Query<T>({
 			firestore: this.firestore,
 			collectionPath: this.collectionPath,
@@ -1210,13 +1857,16 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: this.selectFieldPaths,
 			allDescendants: this.allDescendants,
 			startAt: parseCursorConstraint(false, args),
-			endAt: this.endAtBound
+			endAt: this.endAtBound,
+			findNearest: this.findNearestClause,
+			converter: this.converter
 		});
 	}
 
 	endAt(snapshot: DocumentSnapshot<T>): Query<T>;
 	endAt(...fieldValues: unknown[]): Query<T>;
 	endAt(...args: unknown[]): Query<T> {
+		this.assertNotVectorQuery('endAt');
 		return new Query<T>({
 			firestore: this.firestore,
 			collectionPath: this.collectionPath,
@@ -1228,13 +1878,16 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: this.selectFieldPaths,
 			allDescendants: this.allDescendants,
 			startAt: this.startAtBound,
-			endAt: parseCursorConstraint(true, args)
+			endAt: parseCursorConstraint(true, args),
+			findNearest: this.findNearestClause,
+			converter: this.converter
 		});
 	}
 
 	endBefore(snapshot: DocumentSnapshot<T>): Query<T>;
 	endBefore(...fieldValues: unknown[]): Query<T>;
 	endBefore(...args: unknown[]): Query<T> {
+		this.assertNotVectorQuery('endBefore');
 		return new Query<T>({
 			firestore: this.firestore,
 			collectionPath: this.collectionPath,
@@ -1246,19 +1899,24 @@ export class Query<T extends DocumentData = DocumentData> {
 			select: this.selectFieldPaths,
 			allDescendants: this.allDescendants,
 			startAt: this.startAtBound,
-			endAt: parseCursorConstraint(false, args)
+			endAt: parseCursorConstraint(false, args),
+			findNearest: this.findNearestClause,
+			converter: this.converter
 		});
 	}
 
+	// Vector queries only support filters, `select()` and `limit()` alongside `findNearest()`.
+	private assertNotVectorQuery(method: string): void {
+		if (this.findNearestClause) {
+			throw new Error(`${method}() cannot be combined with findNearest().`);
+		}
+	}
+
 	async *getPartitions(desiredPartitionCount: number): AsyncIterable<QueryPartition<T>> {
 		const partitionCount = z.number().int().positive().parse(desiredPartitionCount);
 		const { rest, parentResourceName, structuredQuery } = this._buildStructuredQueryRequest();
 
-		const databaseResourceName = rest.databaseResourceName();
-		const referenceValueResolver = (resourceName: string) => {
-			const docPath = decodeDocumentPathFromName(resourceName, databaseResourceName);
-			return new DocumentReference({ firestore: this.firestore, path: docPath });
-		};
+		const referenceValueResolver = createReferenceValueResolver(this.firestore);
 
 		const splitPoints: unknown[][] = [];
 		let pageToken: string | null = null;
@@ -1277,6 +1935,8 @@ export class Query<T extends DocumentData = DocumentData> {
 			}
 			pageToken = resp.nextPageToken;
 		} while (pageToken);
+		// Split points are not guaranteed to be ordered across pages.
+		splitPoints.sort(compareFirestoreValues);
 
 		for (let i = 0; i <= splitPoints.length; i += 1) {
 			yield new QueryPartition<T>({
@@ -1287,7 +1947,7 @@ export class Query<T extends DocumentData = DocumentData> {
 		}
 	}
 
-	private _buildStructuredQueryRequest(): {
+	private _buildStructuredQueryRequest(options: { reverseLimitToLast?: boolean } = {}): {
 		rest: FirestoreRestClient;
 		parentResourceName: string;
 		structuredQuery: unknown;
@@ -1309,9 +1969,10 @@ export class Query<T extends DocumentData = DocumentData> {
 				? rest.documentResourceName(parentPath)
 				: `${rest.databaseResourceName()}/documents`;
 
-		const shouldReverse = this.limitToLastValue && this.limitValue !== null;
+		const isLimitToLast = this.limitToLastValue && this.limitValue !== null;
+		const shouldReverse = isLimitToLast && options.reverseLimitToLast !== false;
 
-		const needsOrdering = shouldReverse || this.startAtBound !== null || this.endAtBound !== null;
+		const needsOrdering = isLimitToLast || this.startAtBound !== null || this.endAtBound !== null;
 
 		let orderByClauses = this.orderByClauses;
 		if (orderByClauses.length === 0 && needsOrdering) {
@@ -1413,33 +2074,68 @@ export class Query<T extends DocumentData = DocumentData> {
 			limit: this.limitValue,
 			offset: this.offsetValue,
 			startAt: startAtForQuery,
-			endAt: endAtForQuery
+			endAt: endAtForQuery,
+			findNearest: this.findNearestClause
 		});
 
 		return { rest, parentResourceName, structuredQuery, shouldReverse, orderByForQuery };
 	}
 
-	async get(): Promise<QuerySnapshot<T>> {
+	_toBundledQuery(): BundledQuery {
+		const { parentResourceName, structuredQuery } = this._buildStructuredQueryRequest({
+			reverseLimitToLast: false
+		});
+		return {
+			parent: parentResourceName,
+			structuredQuery,
+			limitType: this.limitToLastValue ? 'LAST' : 'FIRST'
+		};
+	}
+
+	async get(options: ReadOptions = {}): Promise<QuerySnapshot<T>> {
+		const { snapshot } = await this._execute({ readTime: encodeReadTime(options.readTime) });
+		return snapshot;
+	}
+
+	async explain(options: ExplainOptions = {}): Promise<ExplainResults<QuerySnapshot<T>>> {
+		const analyze = options.analyze ?? false;
+		const { snapshot, explainMetrics } = await this._execute({ explainOptions: { analyze } });
+		return new ExplainResults({
+			metrics: decodeExplainMetrics(explainMetrics),
+			snapshot: analyze ? snapshot : null
+		});
+	}
+
+	async _execute(
+		options: {
+			transaction?: string;
+			readTime?: string;
+			explainOptions?: { analyze: boolean };
+		} = {}
+	): Promise<{
+		snapshot: QuerySnapshot<T>;
+		explainMetrics: ExplainMetricsResponse | null;
+	}> {
 		const { rest, parentResourceName, structuredQuery, shouldReverse } =
 			this._buildStructuredQueryRequest();
 
-		const responses = await rest.runQuery({ parentResourceName, structuredQuery });
-		const docs: QueryDocumentSnapshot<T>[] = [];
-		for (const entry of responses) {
+		const responses = await rest.runQuery({
+			parentResourceName,
+			structuredQuery,
+			transaction: options.transaction,
+			readTime: options.readTime,
+			explainOptions: options.explainOptions
+		});
+		const docs: QueryDocumentSnapshot<T>[] = [];
+		let readTime: Timestamp | null = null;
+		let explainMetrics: ExplainMetricsResponse | null = null;
+		for (const entry of responses) {
+			readTime = readTime ?? parseTimestampOrNull(entry.readTime);
+			explainMetrics = entry.explainMetrics ?? explainMetrics;
 			if (!entry.document) {
 				continue;
 			}
-			const docPath = decodeDocumentPathFromName(entry.document.name, rest.databaseResourceName());
-			const ref = new DocumentReference<T>({ firestore: this.firestore, path: docPath });
-			docs.push(
-				new QueryDocumentSnapshot<T>({
-					ref,
-					data: decodeDocumentData(entry.document, this.firestore) as T,
-					createTime: parseTimestampOrNull(entry.document.createTime),
-					updateTime: parseTimestampOrNull(entry.document.updateTime),
-					readTime: parseTimestampOrNull(entry.readTime)
-				})
-			);
+			docs.push(this.toQueryDocumentSnapshot(rest, entry.document, entry.readTime));
 		}
 		if (shouldReverse) {
 			docs.reverse();
@@ -1450,7 +2146,63 @@ export class Query<T extends DocumentData = DocumentData> {
 			oldIndex: -1,
 			newIndex: index
 		}));
-		return new QuerySnapshot(docs, { changes });
+		return {
+			snapshot: new QuerySnapshot(docs, { query: this, readTime, changes }),
+			explainMetrics
+		};
+	}
+
+	async *stream(options: ReadOptions = {}): AsyncGenerator<QueryDocumentSnapshot<T>> {
+		this.assertNotVectorQuery('stream');
+		const readTime = encodeReadTime(options.readTime);
+		const { rest, parentResourceName, structuredQuery, shouldReverse } =
+			this._buildStructuredQueryRequest();
+		const controller = new AbortController();
+		const buffered: QueryDocumentSnapshot<T>[] = [];
+		try {
+			const responses = rest.runQueryStream({
+				parentResourceName,
+				structuredQuery,
+				readTime,
+				signal: controller.signal
+			});
+			for await (const entry of responses) {
+				if (!entry.document) {
+					continue;
+				}
+				const snapshot = this.toQueryDocumentSnapshot(rest, entry.document, entry.readTime);
+				if (shouldReverse) {
+					buffered.push(snapshot);
+				} else {
+					yield snapshot;
+				}
+			}
+		} finally {
+			controller.abort();
+		}
+		// limitToLast runs in reverse order, so its (bounded) results are only known at the end.
+		yield* buffered.reverse();
+	}
+
+	private toQueryDocumentSnapshot(
+		rest: FirestoreRestClient,
+		document: FirestoreDocument,
+		readTime: string | undefined
+	): QueryDocumentSnapshot<T> {
+		const docPath = decodeDocumentPathFromName(document.name, rest.databaseResourceName());
+		const ref = new DocumentReference<T>({
+			firestore: this.firestore,
+			path: docPath,
+			converter: this.converter
+		});
+		return new QueryDocumentSnapshot<T>({
+			ref,
+			data: decodeDocumentData(document, this.firestore),
+			createTime: parseTimestampOrNull(document.createTime),
+			updateTime: parseTimestampOrNull(document.updateTime),
+			readTime: parseTimestampOrNull(readTime),
+			document
+		});
 	}
 
 	onSnapshot(
@@ -1458,7 +2210,7 @@ export class Query<T extends DocumentData = DocumentData> {
 		onError?: (error: unknown) => void
 	): () => void;
 	onSnapshot(
-		_options: { includeMetadataChanges?: boolean },
+		options: { includeMetadataChanges?: boolean },
 		onNext: (snapshot: QuerySnapshot<T>) => void,
 		onError?: (error: unknown) => void
 	): () => void;
@@ -1467,6 +2219,7 @@ export class Query<T extends DocumentData = DocumentData> {
 		onNextOrOnError?: ((snapshot: QuerySnapshot<T>) => void) | ((error: unknown) => void),
 		maybeOnError?: (error: unknown) => void
 	): () => void {
+		this.assertNotVectorQuery('onSnapshot');
 		const onNext =
 			typeof optionsOrOnNext === 'function'
 				? optionsOrOnNext
@@ -1475,6 +2228,10 @@ export class Query<T extends DocumentData = DocumentData> {
 			typeof optionsOrOnNext === 'function'
 				? (onNextOrOnError as ((error: unknown) => void) | undefined)
 				: maybeOnError;
+		const includeMetadataChanges =
+			typeof optionsOrOnNext === 'function'
+				? false
+				: (optionsOrOnNext.includeMetadataChanges ?? false);
 
 		let unsubscribe: (() => void) | null = null;
 		let cancelled = false;
@@ -1483,6 +2240,7 @@ export class Query<T extends DocumentData = DocumentData> {
 		const { rest, parentResourceName, structuredQuery, shouldReverse, orderByForQuery } =
 			this._buildStructuredQueryRequest();
 		const databaseResourceName = rest.databaseResourceName();
+		const limit = this.limitValue;
 
 		let orderBy =
 			orderByForQuery.length > 0
@@ -1498,13 +2256,61 @@ export class Query<T extends DocumentData = DocumentData> {
 			segments: entry.fieldPath === '__name__' ? null : parseFieldPathSegments(entry.fieldPath)
 		}));
 
-		const docsByPath = new Map<string, QueryDocumentSnapshot<T>>();
+		const docsByPath = new Map<string, WatchedDocument<T>>();
 		let hasCurrent = false;
+		// Whether the view is consistent with the server; false while catching up after a reset or
+		// reconnect, which is reported as `metadata.fromCache`.
+		let synced = false;
 		let pendingChanges = false;
+		let readTime: Timestamp | null = null;
 		let emitTimer: ReturnType<typeof setTimeout> | null = null;
+		// Limited queries whose window lost documents are re-queried before the next snapshot, so
+		// documents moving back into range are never missed. Paths the watch stream touches while
+		// the re-query is in flight keep their watched state.
+		let needsRefill = false;
+		let refill: { touchedPaths: Set<string> } | null = null;
+		// Failed re-queries are retried with backoff while the watch view is emitted as is.
+		let refillFailures = 0;
+		let refillTimer: ReturnType<typeof setTimeout> | null = null;
+
+		const cancelRefill = () => {
+			refill = null;
+			refillFailures = 0;
+			if (refillTimer) {
+				clearTimeout(refillTimer);
+				refillTimer = null;
+			}
+		};
+
+		const stop = () => {
+			cancelled = true;
+			if (emitTimer) {
+				clearTimeout(emitTimer);
+				emitTimer = null;
+			}
+			cancelRefill();
+			unsubscribe?.();
+		};
+
+		const fail = (error: unknown) => {
+			if (cancelled) {
+				return;
+			}
+			stop();
+			onError?.(error);
+		};
+
+		const hasMetadataChange = () =>
+			includeMetadataChanges &&
+			lastSnapshot !== null &&
+			lastSnapshot.metadata.fromCache !== !synced;
 
 		const emitSnapshot = () => {
-			if (cancelled || !hasCurrent || !pendingChanges) {
+			if (cancelled || !hasCurrent || (!pendingChanges && !hasMetadataChange())) {
+				return;
+			}
+			// Snapshots wait for the first re-query so the window doesn't briefly shrink.
+			if (startRefill() || (refill && refillFailures === 0)) {
 				return;
 			}
 			pendingChanges = false;
@@ -1513,32 +2319,44 @@ export class Query<T extends DocumentData = DocumentData> {
 				emitTimer = null;
 			}
 
-			const docs = [...docsByPath.values()];
+			const metadata = new SnapshotMetadata(!synced, false);
+			const docs = [...docsByPath.values()].map(
+				(doc) => new QueryDocumentSnapshot<T>({ ...doc, readTime, metadata })
+			);
 			docs.sort((a, b) => compareQueryDocs(a, b, orderByParsed));
+			if (limit !== null && docs.length > limit) {
+				docs.length = limit;
+			}
 			if (shouldReverse) {
 				docs.reverse();
 			}
 
-			const snapshot =
+			const changes =
 				lastSnapshot === null
-					? new QuerySnapshot<T>(
-							docs,
-							{
-								changes: docs.map((doc, index) => ({
-									type: 'added' as const,
-									doc,
-									oldIndex: -1,
-									newIndex: index
-								}))
-							}
-						)
-					: new QuerySnapshot<T>(docs, { changes: computeDocChanges(lastSnapshot, docs) });
+					? docs.map((doc, index) => ({
+							type: 'added' as const,
+							doc,
+							oldIndex: -1,
+							newIndex: index
+						}))
+					: computeDocChanges(lastSnapshot, docs);
+			// A resumed or reset target that converges back to the same results raises nothing.
+			if (lastSnapshot !== null && changes.length === 0 && !hasMetadataChange()) {
+				return;
+			}
+			const snapshot = new QuerySnapshot<T>(docs, {
+				query: this,
+				readTime,
+				metadata,
+				changes,
+				excludesMetadataChanges: !includeMetadataChanges
+			});
 			lastSnapshot = snapshot;
 			onNext(snapshot);
 		};
 
 		const scheduleEmit = () => {
-			if (cancelled || !hasCurrent || !pendingChanges || emitTimer) {
+			if (cancelled || !hasCurrent || (!pendingChanges && !hasMetadataChange()) || emitTimer) {
 				return;
 			}
 			emitTimer = setTimeout(() => {
@@ -1549,51 +2367,152 @@ export class Query<T extends DocumentData = DocumentData> {
 
 		const upsertDocument = (doc: FirestoreDocument) => {
 			const docPath = decodeDocumentPathFromName(doc.name, databaseResourceName);
-			const ref = new DocumentReference<T>({ firestore: this.firestore, path: docPath });
-			docsByPath.set(
-				docPath,
-				new QueryDocumentSnapshot<T>({
-					ref,
-					data: decodeDocumentData(doc, this.firestore) as T,
-					createTime: parseTimestampOrNull(doc.createTime),
-					updateTime: parseTimestampOrNull(doc.updateTime)
-				})
-			);
+			const ref = new DocumentReference<T>({
+				firestore: this.firestore,
+				path: docPath,
+				converter: this.converter
+			});
+			docsByPath.set(docPath, {
+				ref,
+				data: decodeDocumentData(doc, this.firestore),
+				createTime: parseTimestampOrNull(doc.createTime),
+				updateTime: parseTimestampOrNull(doc.updateTime),
+				document: doc
+			});
+			refill?.touchedPaths.add(docPath);
 			pendingChanges = true;
 		};
 
 		const removeDocument = (resourceName: string) => {
 			const docPath = decodeDocumentPathFromName(resourceName, databaseResourceName);
+			refill?.touchedPaths.add(docPath);
 			if (docsByPath.delete(docPath)) {
 				pendingChanges = true;
+				needsRefill = limit !== null;
 			}
 		};
 
+		const startRefill = (): boolean => {
+			if (refill || !needsRefill || !synced || limit === null || docsByPath.size >= limit) {
+				needsRefill = false;
+				return false;
+			}
+			needsRefill = false;
+			runRefill();
+			return true;
+		};
+
+		const runRefill = () => {
+			const current = { touchedPaths: new Set<string>() };
+			refill = current;
+			rest
+				.runQuery({ parentResourceName, structuredQuery })
+				.then((responses) => {
+					if (refill !== current) {
+						return;
+					}
+					refill = null;
+					refillFailures = 0;
+					const serverPaths = new Set<string>();
+					for (const entry of responses) {
+						if (!entry.document) {
+							continue;
+						}
+						const docPath = decodeDocumentPathFromName(entry.document.name, databaseResourceName);
+						serverPaths.add(docPath);
+						if (!current.touchedPaths.has(docPath)) {
+							upsertDocument(entry.document);
+						}
+					}
+					for (const docPath of [...docsByPath.keys()]) {
+						if (!serverPaths.has(docPath) && !current.touchedPaths.has(docPath)) {
+							docsByPath.delete(docPath);
+						}
+					}
+					pendingChanges = true;
+					emitSnapshot();
+				})
+				.catch((error: unknown) => {
+					if (refill !== current) {
+						return;
+					}
+					const firestoreError = toFirestoreError(error, 'runQuery');
+					if (!RETRYABLE_REFILL_CODES.has(firestoreError.code)) {
+						fail(firestoreError);
+						return;
+					}
+					refillFailures += 1;
+					const backoffMs = Math.min(1000 * 1.5 ** (refillFailures - 1), 60_000);
+					refillTimer = setTimeout(() => {
+						refillTimer = null;
+						if (refill !== current) {
+							return;
+						}
+						if (limit !== null && docsByPath.size >= limit) {
+							cancelRefill();
+							return;
+						}
+						runRefill();
+					}, firestoreError.retryDelayMs ?? backoffMs);
+					emitSnapshot();
+				});
+		};
+
+		// Resolves an existence filter mismatch locally: cached documents that are not in the bloom
+		// filter of unchanged names were deleted or stopped matching while we weren't told.
+		const removeDocumentsMissingFromBloomFilter = (
+			unchangedNames: BloomFilterData | undefined,
+			expectedCount: number
+		): boolean => {
+			const bloomFilter = parseBloomFilter(unchangedNames);
+			if (!bloomFilter) {
+				return false;
+			}
+			const removedPaths = [...docsByPath.keys()].filter(
+				(docPath) => !bloomFilter.mightContain(`${databaseResourceName}/documents/${docPath}`)
+			);
+			if (docsByPath.size - removedPaths.length !== expectedCount) {
+				return false;
+			}
+			for (const docPath of removedPaths) {
+				refill?.touchedPaths.add(docPath);
+				docsByPath.delete(docPath);
+			}
+			pendingChanges ||= removedPaths.length > 0;
+			needsRefill ||= limit !== null && removedPaths.length > 0;
+			return true;
+		};
+
 		void listenToQuery({
 			firestore: this.firestore,
 			parentResourceName,
 			structuredQuery,
-			onMessage: (message) => {
+			onMessage: (message, targetId) => {
 				if (cancelled) {
 					return;
 				}
 
-				const targetId = 1;
-
 				if ('targetChange' in message) {
 					const change = message.targetChange;
-					const type = change.targetChangeType ?? null;
+					const type = change.targetChangeType ?? 'NO_CHANGE';
+					if (change.readTime && (type === 'CURRENT' || type === 'NO_CHANGE')) {
+						readTime = decodeTimestamp(change.readTime);
+					}
 
 					if (type === 'RESET') {
 						docsByPath.clear();
+						cancelRefill();
+						needsRefill = false;
 						hasCurrent = false;
+						synced = false;
 						pendingChanges = true;
 						return;
 					}
 
 					if (type === 'CURRENT') {
 						hasCurrent = true;
-						pendingChanges = true;
+						synced = true;
+						pendingChanges = pendingChanges || lastSnapshot === null;
 						emitSnapshot();
 						return;
 					}
@@ -1643,17 +2562,26 @@ export class Query<T extends DocumentData = DocumentData> {
 
 				if ('filter' in message) {
 					const filter = message.filter;
-					if (filter.targetId !== targetId || typeof filter.count !== 'number') {
+					const expectedCount = filter.count ?? 0;
+					if (filter.targetId !== targetId || !hasCurrent || expectedCount === docsByPath.size) {
 						return;
 					}
-					if (hasCurrent && filter.count !== docsByPath.size) {
+					if (!removeDocumentsMissingFromBloomFilter(filter.unchangedNames, expectedCount)) {
 						docsByPath.clear();
+						cancelRefill();
+						needsRefill = false;
 						hasCurrent = false;
+						synced = false;
 						pendingChanges = true;
+						this.firestore._getWatchStream().resetTarget(targetId);
 					}
 				}
 			},
-			onError
+			onError,
+			onDisconnect: () => {
+				synced = false;
+				scheduleEmit();
+			}
 		})
 			.then((unsub) => {
 				unsubscribe = unsub;
@@ -1665,14 +2593,16 @@ export class Query<T extends DocumentData = DocumentData> {
 				onError?.(error);
 			});
 
-		return () => {
-			cancelled = true;
-			if (emitTimer) {
-				clearTimeout(emitTimer);
-				emitTimer = null;
-			}
-			unsubscribe?.();
-		};
+		return stop;
+	}
+
+	snapshots(
+		options: { includeMetadataChanges?: boolean } = {}
+	): AsyncIterableIterator<QuerySnapshot<T>> {
+		return new SnapshotIterator<QuerySnapshot<T>>(
+			(onNext, onError) => this.onSnapshot(options, onNext, onError),
+			(latest, previous) => latest._withChangesSince(previous)
+		);
 	}
 
 	count(): AggregateQuery<T> {
@@ -1745,6 +2675,68 @@ export class AggregateField {
 	}
 }
 
+export type ExplainOptions = {
+	analyze?: boolean;
+};
+
+export type Duration = {
+	seconds: number;
+	nanoseconds: number;
+};
+
+export type PlanSummary = {
+	indexesUsed: Array<Record<string, unknown>>;
+};
+
+export type ExecutionStats = {
+	resultsReturned: number;
+	executionDuration: Duration;
+	readOperations: number;
+	debugStats: Record<string, unknown>;
+};
+
+export type ExplainMetrics = {
+	planSummary: PlanSummary;
+	executionStats: ExecutionStats | null;
+};
+
+export class ExplainResults<T> {
+	readonly metrics: ExplainMetrics;
+	readonly snapshot: T | null;
+
+	constructor(options: { metrics: ExplainMetrics; snapshot: T | null }) {
+		this.metrics = options.metrics;
+		this.snapshot = options.snapshot;
+	}
+}
+
+function parseDuration(value: string | undefined): Duration {
+	const match = value ? /^(-?\d+)(?:\.(\d{1,9}))?s$/.exec(value.trim()) : null;
+	if (!match) {
+		return { seconds: 0, nanoseconds: 0 };
+	}
+	const [, seconds, fraction = ''] = match;
+	return { seconds: Number(seconds), nanoseconds: Number(fraction.padEnd(9, '0')) };
+}
+
+function decodeExplainMetrics(metrics: ExplainMetricsResponse | null): ExplainMetrics {
+	if (!metrics) {
+		throw new Error('Firestore did not return explain metrics for the query.');
+	}
+	const stats = metrics.executionStats;
+	return {
+		planSummary: { indexesUsed: metrics.planSummary?.indexesUsed ?? [] },
+		executionStats: stats
+			? {
+					resultsReturned: Number(stats.resultsReturned ?? 0),
+					executionDuration: parseDuration(stats.executionDuration),
+					readOperations: Number(stats.readOperations ?? 0),
+					debugStats: stats.debugStats ?? {}
+				}
+			: null
+	};
+}
+
 export class AggregateQuerySnapshot {
 	private readonly snapshotData: Record<string, unknown>;
 	private readonly snapshotReadTime: Timestamp | null;
@@ -1763,7 +2755,7 @@ export class AggregateQuerySnapshot {
 	}
 }
 
-export class AggregateQuery<T extends DocumentData = DocumentData> {
+export class AggregateQuery<T = DocumentData> {
 	readonly query: Query<T>;
 	private readonly parentResourceName: string;
 	private readonly structuredQuery: unknown;
@@ -1781,14 +2773,40 @@ export class AggregateQuery<T extends DocumentData = DocumentData> {
 		this.aggregations = options.aggregations;
 	}
 
-	async get(): Promise<AggregateQuerySnapshot> {
+	async get(options: ReadOptions = {}): Promise<AggregateQuerySnapshot> {
+		const { snapshot } = await this._execute({ readTime: encodeReadTime(options.readTime) });
+		return snapshot;
+	}
+
+	async explain(options: ExplainOptions = {}): Promise<ExplainResults<AggregateQuerySnapshot>> {
+		const analyze = options.analyze ?? false;
+		const { snapshot, explainMetrics } = await this._execute({ explainOptions: { analyze } });
+		return new ExplainResults({
+			metrics: decodeExplainMetrics(explainMetrics),
+			snapshot: analyze ? snapshot : null
+		});
+	}
+
+	async _execute(
+		options: {
+			transaction?: string;
+			readTime?: string;
+			explainOptions?: { analyze: boolean };
+		} = {}
+	): Promise<{
+		snapshot: AggregateQuerySnapshot;
+		explainMetrics: ExplainMetricsResponse | null;
+	}> {
 		const rest = this.query.firestore._getRestClient();
 		const responses = await rest.runAggregationQuery({
 			parentResourceName: this.parentResourceName,
 			structuredAggregationQuery: {
 				structuredQuery: this.structuredQuery,
 				aggregations: this.aggregations
-			}
+			},
+			transaction: options.transaction,
+			readTime: options.readTime,
+			explainOptions: options.explainOptions
 		});
 
 		const match = responses.find((entry) => entry.result?.aggregateFields);
@@ -1798,14 +2816,38 @@ export class AggregateQuery<T extends DocumentData = DocumentData> {
 			data[key] = fromFirestoreValue(value);
 		}
 
-		return new AggregateQuerySnapshot({
-			data,
-			readTime: parseTimestampOrNull(match?.readTime) ?? null
-		});
+		return {
+			snapshot: new AggregateQuerySnapshot({
+				data,
+				readTime: parseTimestampOrNull(match?.readTime) ?? null
+			}),
+			explainMetrics: responses.find((entry) => entry.explainMetrics)?.explainMetrics ?? null
+		};
+	}
+}
+
+// Result of `Query.findNearest()`. Like the Admin SDK's `VectorQuery`, it can only be read once;
+// it can't be listened to, streamed or refined further.
+export class VectorQuery<T = DocumentData> {
+	// The query `findNearest()` was called on.
+	readonly query: Query<T>;
+	private readonly nearest: Query<T>;
+
+	constructor(options: { query: Query<T>; nearest: Query<T> }) {
+		this.query = options.query;
+		this.nearest = options.nearest;
+	}
+
+	async get(options: ReadOptions = {}): Promise<QuerySnapshot<T>> {
+		return await this.nearest.get(options);
+	}
+
+	async explain(options: ExplainOptions = {}): Promise<ExplainResults<QuerySnapshot<T>>> {
+		return await this.nearest.explain(options);
 	}
 }
 
-export class QueryPartition<T extends DocumentData = DocumentData> {
+export class QueryPartition<T = DocumentData> {
 	private readonly baseQuery: Query<T>;
 	private readonly startAtValues: unknown[] | undefined;
 	private readonly endBeforeValues: unknown[] | undefined;
@@ -1840,11 +2882,19 @@ export class QueryPartition<T extends DocumentData = DocumentData> {
 	}
 }
 
-export class CollectionReference<T extends DocumentData = DocumentData> extends Query<T> {
+export class CollectionReference<T = DocumentData> extends Query<T> {
 	readonly path: string;
 
-	constructor(options: { firestore: Firestore; path: string }) {
-		super({ firestore: options.firestore, collectionPath: options.path });
+	constructor(options: {
+		firestore: Firestore;
+		path: string;
+		converter?: FirestoreDataConverter<T> | null;
+	}) {
+		super({
+			firestore: options.firestore,
+			collectionPath: options.path,
+			converter: options.converter
+		});
 		this.path = options.path;
 	}
 
@@ -1866,27 +2916,66 @@ export class CollectionReference<T extends DocumentData = DocumentData> extends
 		return new DocumentReference({ firestore: this.firestore, path: parentPath });
 	}
 
+	override withConverter(converter: null): CollectionReference;
+	override withConverter<U, V extends DocumentData = DocumentData>(
+		converter: FirestoreDataConverter<U, V>
+	): CollectionReference<U>;
+	override withConverter<U>(converter: FirestoreDataConverter<U> | null): CollectionReference<U> {
+		return new CollectionReference<U>({ firestore: this.firestore, path: this.path, converter });
+	}
+
 	doc(documentId: string): DocumentReference<T> {
 		const id = z.string().trim().min(1).parse(documentId);
-		return new DocumentReference<T>({ firestore: this.firestore, path: joinPath(this.path, id) });
+		return new DocumentReference<T>({
+			firestore: this.firestore,
+			path: joinPath(this.path, id),
+			converter: this.converter
+		});
 	}
 
-	async add(data: T): Promise<DocumentReference<T>> {
+	async add(data: WithFieldValue<T>): Promise<DocumentReference<T>> {
 		const ref = this.doc(autoId());
 		await ref.create(data);
 		return ref;
 	}
 
-	async listDocuments(options: { pageSize?: number } = {}): Promise<Array<DocumentReference<T>>> {
+	async listDocuments(
+		options: Omit<ListDocumentsOptions, 'pageToken'> = {}
+	): Promise<Array<DocumentReference<T>>> {
+		const refs: Array<DocumentReference<T>> = [];
+		for await (const page of this.listDocumentsIterator(options)) {
+			refs.push(...page.documents);
+		}
+		return refs;
+	}
+
+	async *listDocumentsIterator(
+		options: ListDocumentsOptions = {}
+	): AsyncGenerator<ListDocumentsPage<T>> {
 		const rest = this.firestore._getRestClient();
-		const { documents } = await rest.listDocuments({
-			collectionPath: this.path,
-			pageSize: options.pageSize
-		});
-		return documents.map((doc) => {
-			const docPath = decodeDocumentPathFromName(doc.name, rest.databaseResourceName());
-			return new DocumentReference<T>({ firestore: this.firestore, path: docPath });
-		});
+		const readTime = encodeReadTime(options.readTime);
+		let pageToken = options.pageToken ?? null;
+		do {
+			const resp = await rest.listDocuments({
+				collectionPath: this.path,
+				pageSize: options.pageSize,
+				pageToken: pageToken ?? undefined,
+				readTime,
+				// Like the Admin SDK, missing documents with subcollections are listed by default.
+				showMissing: options.showMissing ?? true,
+				mask: []
+			});
+			const documents = resp.documents.map((doc) => {
+				const docPath = decodeDocumentPathFromName(doc.name, rest.databaseResourceName());
+				return new DocumentReference<T>({
+					firestore: this.firestore,
+					path: docPath,
+					converter: this.converter
+				});
+			});
+			pageToken = resp.nextPageToken;
+			yield { documents, nextPageToken: pageToken };
+		} while (pageToken);
 	}
 }
 
@@ -1898,21 +2987,27 @@ export class WriteBatch {
 		this.firestore = firestore;
 	}
 
-	create<T extends DocumentData>(ref: DocumentReference<T>, data: T): this {
+	create<T>(ref: DocumentReference<T>, data: WithFieldValue<T>): this {
 		const encoded = encodeSetData({
-			data,
+			data: toFirestoreData(ref, data),
 			merge: false,
 			ignoreUndefinedProperties: this.firestore._ignoreUndefinedProperties()
 		});
 		this.writes.push(
-			buildUpdateWrite(this.firestore, ref, encoded, { precondition: 'not-exists' })
+			buildUpdateWrite(this.firestore, ref, encoded, { precondition: { exists: false } })
 		);
 		return this;
 	}
 
-	set<T extends DocumentData>(ref: DocumentReference<T>, data: T, options: SetOptions = {}): this {
+	set<T>(ref: DocumentReference<T>, data: WithFieldValue<T>): this;
+	set<T>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options: SetOptions): this;
+	set<T>(
+		ref: DocumentReference<T>,
+		data: WithFieldValue<T> | PartialWithFieldValue<T>,
+		options: SetOptions = {}
+	): this {
 		const encoded = encodeSetData({
-			data,
+			data: toFirestoreData(ref, data, options),
 			merge: options.merge ?? false,
 			mergeFields: options.mergeFields,
 			ignoreUndefinedProperties: this.firestore._ignoreUndefinedProperties()
@@ -1921,55 +3016,39 @@ export class WriteBatch {
 		return this;
 	}
 
-	update<T extends DocumentData>(ref: DocumentReference<T>, data: Record<string, unknown>): this;
-	update<T extends DocumentData>(
+	update<T>(
+		ref: DocumentReference<T>,
+		data: Record<string, unknown>,
+		precondition?: Precondition
+	): this;
+	update<T>(
 		ref: DocumentReference<T>,
 		field: string | FieldPath,
 		value: unknown,
-		...moreFieldsAndValues: unknown[]
+		...moreFieldsAndValuesOrPrecondition: unknown[]
 	): this;
-	update<T extends DocumentData>(
+	update<T>(
 		ref: DocumentReference<T>,
 		dataOrField: Record<string, unknown> | string | FieldPath,
 		value?: unknown,
 		...moreFieldsAndValues: unknown[]
 	): this {
 		const ignoreUndefinedProperties = this.firestore._ignoreUndefinedProperties();
-		let data: Record<string, unknown>;
-
-		if (typeof dataOrField === 'string' || dataOrField instanceof FieldPath) {
-			const pairs = [dataOrField, value, ...moreFieldsAndValues];
-			if (pairs.length < 2 || pairs.length % 2 !== 0) {
-				throw new Error('update() requires field/value pairs.');
-			}
-			const out: Record<string, unknown> = {};
-			for (let i = 0; i < pairs.length; i += 2) {
-				const fieldPath = pairs[i];
-				const fieldValue = pairs[i + 1];
-				if (!(typeof fieldPath === 'string' || fieldPath instanceof FieldPath)) {
-					throw new Error('update() field paths must be strings or FieldPath instances.');
-				}
-				const key = fieldPath instanceof FieldPath ? fieldPath.toString() : fieldPath;
-				out[key] = fieldValue;
-			}
-			data = out;
-		} else {
-			data = dataOrField;
-		}
+		const { data, precondition } = parseUpdateArguments(dataOrField, value, moreFieldsAndValues);
 
 		const encoded = encodeUpdateData({ data, ignoreUndefinedProperties });
-		this.writes.push(buildUpdateWrite(this.firestore, ref, encoded, { precondition: 'exists' }));
+		this.writes.push(buildUpdateWrite(this.firestore, ref, encoded, { precondition }));
 		return this;
 	}
 
-	delete<T extends DocumentData>(ref: DocumentReference<T>): this {
-		this.writes.push(buildDeleteWrite(this.firestore, ref));
+	delete<T>(ref: DocumentReference<T>, precondition?: Precondition): this {
+		this.writes.push(buildDeleteWrite(this.firestore, ref, precondition));
 		return this;
 	}
 
 	async commit(): Promise<WriteResult[]> {
 		const resp = await this.firestore._getRestClient().commit({ writes: this.writes });
-		return writeResultsFromCommit(resp, this.writes.length);
+		return writeResultsFromCommit(this.firestore, resp, this.writes);
 	}
 }
 
@@ -1980,34 +3059,62 @@ export type BulkWriterOptions = {
 				initialOpsPerSecond?: number;
 				maxOpsPerSecond?: number;
 		  };
+	// Clock used for throttling; defaults to `Date.now`.
+	now?: () => number;
 };
 
-export class BulkWriterError extends Error {
-	readonly code: number;
-	readonly documentRef: DocumentReference;
+export class BulkWriterError extends FirestoreError {
+	readonly documentRef: DocumentReference<unknown>;
 	readonly operationType: 'create' | 'set' | 'update' | 'delete';
 	readonly failedAttempts: number;
 
 	constructor(options: {
-		code: number;
-		message: string;
-		documentRef: DocumentReference;
+		error: FirestoreError;
+		documentRef: DocumentReference<unknown>;
 		operationType: 'create' | 'set' | 'update' | 'delete';
 		failedAttempts: number;
 	}) {
-		super(options.message);
+		super(options.error.message, {
+			apiStatus: options.error.apiStatus,
+			httpStatus: options.error.httpStatus,
+			method: options.error.method
+		});
+		this.details.push(...options.error.details);
 		this.name = 'BulkWriterError';
-		this.code = options.code;
 		this.documentRef = options.documentRef;
 		this.operationType = options.operationType;
 		this.failedAttempts = options.failedAttempts;
 	}
 }
 
+function createBulkWriterRateLimiter(
+	throttling: NonNullable<BulkWriterOptions['throttling']>,
+	now: BulkWriterOptions['now']
+): RateLimiter | null {
+	if (throttling === false) {
+		return null;
+	}
+	const { initialOpsPerSecond, maxOpsPerSecond } = throttling === true ? {} : throttling;
+	for (const [name, value] of Object.entries({ initialOpsPerSecond, maxOpsPerSecond })) {
+		if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+			throw new Error(`BulkWriter throttling option "${name}" must be a positive integer.`);
+		}
+	}
+	const initialCapacity = initialOpsPerSecond ?? DEFAULT_INITIAL_OPS_PER_SECOND;
+	const maximumCapacity =
+		maxOpsPerSecond ?? Math.max(initialCapacity, DEFAULT_MAXIMUM_OPS_PER_SECOND);
+	if (maximumCapacity < initialCapacity) {
+		throw new Error(
+			'BulkWriter throttling option "maxOpsPerSecond" cannot be less than "initialOpsPerSecond".'
+		);
+	}
+	return new RateLimiter({ initialCapacity, maximumCapacity, now });
+}
+
 type BulkWriterOperation = {
 	opId: number;
 	write: unknown;
-	documentRef: DocumentReference;
+	documentRef: DocumentReference<unknown>;
 	operationType: 'create' | 'set' | 'update' | 'delete';
 	failedAttempts: number;
 	resolve: (result: WriteResult) => void;
@@ -2020,7 +3127,7 @@ export class BulkWriter {
 	private readonly pendingOpIds = new Set<number>();
 	private readonly flushWaiters: Array<{ targetId: number; resolve: () => void }> = [];
 	private readonly writeResultListeners: Array<
-		(documentRef: DocumentReference, result: WriteResult) => void
+		(documentRef: DocumentReference<unknown>, result: WriteResult) => void
 	> = [];
 	private writeErrorListener: ((error: BulkWriterError) => boolean) | null = null;
 	private nextOpId = 1;
@@ -2030,10 +3137,11 @@ export class BulkWriter {
 	private batchWriteDisabled = false;
 	private readonly maxBatchSize = 20;
 	private readonly maxAttempts = 10;
+	private readonly rateLimiter: RateLimiter | null;
 
 	constructor(firestore: Firestore, options: BulkWriterOptions = {}) {
-		void options;
 		this.firestore = firestore;
+		this.rateLimiter = createBulkWriterRateLimiter(options.throttling ?? true, options.now);
 	}
 
 	private ensureOpen(): void {
@@ -2042,7 +3150,9 @@ export class BulkWriter {
 		}
 	}
 
-	onWriteResult(callback: (documentRef: DocumentReference, result: WriteResult) => void): void {
+	onWriteResult(
+		callback: (documentRef: DocumentReference<unknown>, result: WriteResult) => void
+	): void {
 		this.ensureOpen();
 		this.writeResultListeners.push(callback);
 	}
@@ -2052,33 +3162,33 @@ export class BulkWriter {
 		this.writeErrorListener = shouldRetryCallback;
 	}
 
-	create<T extends DocumentData>(documentRef: DocumentReference<T>, data: T): Promise<WriteResult> {
+	create<T>(documentRef: DocumentReference<T>, data: WithFieldValue<T>): Promise<WriteResult> {
 		this.ensureOpen();
 		const encoded = encodeSetData({
-			data,
+			data: toFirestoreData(documentRef, data),
 			merge: false,
 			ignoreUndefinedProperties: this.firestore._ignoreUndefinedProperties()
 		});
 		const write = buildUpdateWrite(this.firestore, documentRef, encoded, {
-			precondition: 'not-exists'
+			precondition: { exists: false }
 		});
 		return this.enqueue('create', documentRef, write);
 	}
 
-	set<T extends DocumentData>(documentRef: DocumentReference<T>, data: T): Promise<WriteResult>;
-	set<T extends DocumentData>(
+	set<T>(documentRef: DocumentReference<T>, data: WithFieldValue<T>): Promise<WriteResult>;
+	set<T>(
 		documentRef: DocumentReference<T>,
-		data: Partial<T>,
+		data: PartialWithFieldValue<T>,
 		options: SetOptions
 	): Promise<WriteResult>;
-	set<T extends DocumentData>(
+	set<T>(
 		documentRef: DocumentReference<T>,
-		data: T | Partial<T>,
+		data: WithFieldValue<T> | PartialWithFieldValue<T>,
 		options: SetOptions = {}
 	): Promise<WriteResult> {
 		this.ensureOpen();
 		const encoded = encodeSetData({
-			data: data as Record<string, unknown>,
+			data: toFirestoreData(documentRef, data, options),
 			merge: options.merge ?? false,
 			mergeFields: options.mergeFields,
 			ignoreUndefinedProperties: this.firestore._ignoreUndefinedProperties()
@@ -2087,56 +3197,38 @@ export class BulkWriter {
 		return this.enqueue('set', documentRef, write);
 	}
 
-	update<T extends DocumentData>(
+	update<T>(
 		documentRef: DocumentReference<T>,
-		data: Record<string, unknown>
+		data: Record<string, unknown>,
+		precondition?: Precondition
 	): Promise<WriteResult>;
 	update(
-		documentRef: DocumentReference,
+		documentRef: DocumentReference<unknown>,
 		field: string | FieldPath,
 		value: unknown,
-		...moreFieldsAndValues: unknown[]
+		...moreFieldsAndValuesOrPrecondition: unknown[]
 	): Promise<WriteResult>;
 	update(
-		documentRef: DocumentReference,
+		documentRef: DocumentReference<unknown>,
 		dataOrField: Record<string, unknown> | string | FieldPath,
 		value?: unknown,
 		...moreFieldsAndValues: unknown[]
 	): Promise<WriteResult> {
 		this.ensureOpen();
 		const ignoreUndefinedProperties = this.firestore._ignoreUndefinedProperties();
-		let data: Record<string, unknown>;
-
-		if (typeof dataOrField === 'string' || dataOrField instanceof FieldPath) {
-			const pairs = [dataOrField, value, ...moreFieldsAndValues];
-			if (pairs.length < 2 || pairs.length % 2 !== 0) {
-				throw new Error('update() requires field/value pairs.');
-			}
-			const out: Record<string, unknown> = {};
-			for (let i = 0; i < pairs.length; i += 2) {
-				const fieldPath = pairs[i];
-				const fieldValue = pairs[i + 1];
-				if (!(typeof fieldPath === 'string' || fieldPath instanceof FieldPath)) {
-					throw new Error('update() field paths must be strings or FieldPath instances.');
-				}
-				const key = fieldPath instanceof FieldPath ? fieldPath.toString() : fieldPath;
-				out[key] = fieldValue;
-			}
-			data = out;
-		} else {
-			data = dataOrField;
-		}
+		const { data, precondition } = parseUpdateArguments(dataOrField, value, moreFieldsAndValues);
 
 		const encoded = encodeUpdateData({ data, ignoreUndefinedProperties });
-		const write = buildUpdateWrite(this.firestore, documentRef, encoded, {
-			precondition: 'exists'
-		});
+		const write = buildUpdateWrite(this.firestore, documentRef, encoded, { precondition });
 		return this.enqueue('update', documentRef, write);
 	}
 
-	delete(documentRef: DocumentReference): Promise<WriteResult> {
+	delete(
+		documentRef: DocumentReference<unknown>,
+		precondition?: Precondition
+	): Promise<WriteResult> {
 		this.ensureOpen();
-		const write = buildDeleteWrite(this.firestore, documentRef);
+		const write = buildDeleteWrite(this.firestore, documentRef, precondition);
 		return this.enqueue('delete', documentRef, write);
 	}
 
@@ -2169,7 +3261,7 @@ export class BulkWriter {
 
 	private enqueue(
 		operationType: BulkWriterOperation['operationType'],
-		documentRef: DocumentReference,
+		documentRef: DocumentReference<unknown>,
 		write: unknown
 	): Promise<WriteResult> {
 		const opId = this.nextOpId;
@@ -2223,7 +3315,10 @@ export class BulkWriter {
 	private takeBatch(): BulkWriterOperation[] {
 		const selected: BulkWriterOperation[] = [];
 		const seenPaths = new Set<string>();
-		for (let i = 0; i < this.queue.length && selected.length < this.maxBatchSize; ) {
+		const maxBatchSize = this.rateLimiter
+			? Math.min(this.maxBatchSize, this.rateLimiter.calculateCapacity())
+			: this.maxBatchSize;
+		for (let i = 0; i < this.queue.length && selected.length < maxBatchSize; ) {
 			const op = this.queue[i];
 			const key = op.documentRef.path;
 			if (seenPaths.has(key)) {
@@ -2248,6 +3343,7 @@ export class BulkWriter {
 				if (batch.length === 0) {
 					break;
 				}
+				await this.acquireTokens(batch.length);
 				await this.processBatch(batch);
 			}
 		} finally {
@@ -2255,6 +3351,15 @@ export class BulkWriter {
 		}
 	}
 
+	private async acquireTokens(count: number): Promise<void> {
+		if (!this.rateLimiter) {
+			return;
+		}
+		while (!this.rateLimiter.tryMakeRequest(count)) {
+			await sleep(Math.max(this.rateLimiter.getNextRequestDelayMs(count), 1));
+		}
+	}
+
 	private async processBatchViaCommit(batch: BulkWriterOperation[]): Promise<void> {
 		const rest = this.firestore._getRestClient();
 		const retryQueue: BulkWriterOperation[] = [];
@@ -2263,7 +3368,7 @@ export class BulkWriter {
 		for (const entry of batch) {
 			try {
 				const resp = await rest.commit({ writes: [entry.write] });
-				const result = writeResultFromCommit(resp, 0);
+				const result = writeResultFromCommit(this.firestore, resp, [entry.write], 0);
 				entry.resolve(result);
 				for (const listener of this.writeResultListeners) {
 					listener(entry.documentRef, result);
@@ -2272,25 +3377,23 @@ export class BulkWriter {
 				this.notifyFlushWaiters();
 			} catch (error) {
 				entry.failedAttempts += 1;
-				const message = error instanceof Error ? error.message : String(error);
 				const errorObj = new BulkWriterError({
-					code: error instanceof FirestoreApiError ? error.httpStatus : 0,
-					message,
+					error: toFirestoreError(error, 'commit'),
 					documentRef: entry.documentRef,
 					operationType: entry.operationType,
 					failedAttempts: entry.failedAttempts
 				});
 
 				const defaultRetryable =
-					error instanceof FirestoreApiError &&
-					(error.apiStatus === 'ABORTED' || error.apiStatus === 'UNAVAILABLE') &&
+					(errorObj.code === 'aborted' || errorObj.code === 'unavailable') &&
 					entry.failedAttempts < this.maxAttempts;
 				const shouldRetry = this.writeErrorListener
 					? this.writeErrorListener(errorObj)
 					: defaultRetryable;
 				if (shouldRetry && entry.failedAttempts < this.maxAttempts) {
 					retryQueue.push(entry);
-					const backoff = Math.min(1000 * 2 ** (entry.failedAttempts - 1), 10_000);
+					const backoff =
+						errorObj.retryDelayMs ?? Math.min(1000 * 2 ** (entry.failedAttempts - 1), 10_000);
 					retryBackoffMs = Math.max(retryBackoffMs, backoff);
 					continue;
 				}
@@ -2324,7 +3427,7 @@ export class BulkWriter {
 			response = await rest.batchWrite({ writes: batch.map((entry) => entry.write) });
 		} catch (error) {
 			const shouldDisableBatchWrite =
-				error instanceof FirestoreApiError &&
+				error instanceof FirestoreError &&
 				error.httpStatus === 403 &&
 				error.message.includes('Batch writes require admin authentication');
 			if (shouldDisableBatchWrite) {
@@ -2337,24 +3440,22 @@ export class BulkWriter {
 			let retryBackoffMs = 0;
 			for (const entry of batch) {
 				entry.failedAttempts += 1;
-				const message = error instanceof Error ? error.message : String(error);
 				const errorObj = new BulkWriterError({
-					code: 0,
-					message,
+					error: toFirestoreError(error, 'batchWrite'),
 					documentRef: entry.documentRef,
 					operationType: entry.operationType,
 					failedAttempts: entry.failedAttempts
 				});
 				const defaultRetryable =
-					error instanceof FirestoreApiError &&
-					(error.apiStatus === 'ABORTED' || error.apiStatus === 'UNAVAILABLE') &&
+					(errorObj.code === 'aborted' || errorObj.code === 'unavailable') &&
 					entry.failedAttempts < this.maxAttempts;
 				const shouldRetry = this.writeErrorListener
 					? this.writeErrorListener(errorObj)
 					: defaultRetryable;
 				if (shouldRetry && entry.failedAttempts < this.maxAttempts) {
 					retryQueue.push(entry);
-					const backoff = Math.min(1000 * 2 ** (entry.failedAttempts - 1), 10_000);
+					const backoff =
+						errorObj.retryDelayMs ?? Math.min(1000 * 2 ** (entry.failedAttempts - 1), 10_000);
 					retryBackoffMs = Math.max(retryBackoffMs, backoff);
 					continue;
 				}
@@ -2383,9 +3484,7 @@ export class BulkWriter {
 			const status = statuses.at(i);
 			const ok = !status || status.code === 0 || status.status === 'OK';
 			if (ok) {
-				const writeResult = writeResults.at(i);
-				const writeTime = parseTimestampOrNull(writeResult?.updateTime) ?? Timestamp.now();
-				const result = new WriteResult(writeTime);
+				const result = decodeWriteResult(this.firestore, entry.write, writeResults.at(i));
 				entry.resolve(result);
 				for (const listener of this.writeResultListeners) {
 					listener(entry.documentRef, result);
@@ -2396,18 +3495,20 @@ export class BulkWriter {
 			}
 
 			entry.failedAttempts += 1;
-			const code = status.code ?? 0;
-			const message = status.message ?? 'BulkWriter operation failed';
 			const errorObj = new BulkWriterError({
-				code,
-				message,
+				error: new FirestoreError(status.message ?? 'BulkWriter operation failed', {
+					apiStatus: status.status,
+					grpcStatus: status.code,
+					details: status.details,
+					method: 'batchWrite'
+				}),
 				documentRef: entry.documentRef,
 				operationType: entry.operationType,
 				failedAttempts: entry.failedAttempts
 			});
 
 			const defaultRetryable =
-				(status.status === 'ABORTED' || status.status === 'UNAVAILABLE') &&
+				(errorObj.code === 'aborted' || errorObj.code === 'unavailable') &&
 				entry.failedAttempts < this.maxAttempts;
 			const shouldRetry = this.writeErrorListener
 				? this.writeErrorListener(errorObj)
@@ -2415,7 +3516,8 @@ export class BulkWriter {
 
 			if (shouldRetry && entry.failedAttempts < this.maxAttempts) {
 				retryQueue.push(entry);
-				const backoff = Math.min(1000 * 2 ** (entry.failedAttempts - 1), 10_000);
+				const backoff =
+					errorObj.retryDelayMs ?? Math.min(1000 * 2 ** (entry.failedAttempts - 1), 10_000);
 				retryBackoffMs = Math.max(retryBackoffMs, backoff);
 				continue;
 			}
@@ -2438,141 +3540,297 @@ export class BulkWriter {
 
 export class BundleBuilder {
 	readonly bundleId: string;
+	private readonly documents = new Map<string, BundledDocument>();
+	private readonly namedQueries = new Map<string, NamedQuery>();
+	private latestReadTime = new Timestamp(0, 0);
 
 	constructor(bundleId: string) {
 		this.bundleId = bundleId;
 	}
 
-	add(snapshotOrName: unknown, maybeSnapshot?: unknown): this {
-		void snapshotOrName;
-		void maybeSnapshot;
+	add(documentSnapshot: DocumentSnapshot<unknown>): this;
+	add(queryName: string, querySnapshot: QuerySnapshot<unknown>): this;
+	add(
+		snapshotOrName: DocumentSnapshot<unknown> | string,
+		maybeSnapshot?: QuerySnapshot<unknown>
+	): this {
+		if (typeof snapshotOrName === 'string') {
+			if (!(maybeSnapshot instanceof QuerySnapshot)) {
+				throw new Error('BundleBuilder.add() requires a QuerySnapshot when a query name is given.');
+			}
+			this.addNamedQuery(snapshotOrName, maybeSnapshot);
+			return this;
+		}
+		if (!(snapshotOrName instanceof DocumentSnapshot)) {
+			throw new Error('BundleBuilder.add() expects a DocumentSnapshot or a named QuerySnapshot.');
+		}
+		this.addDocument(snapshotOrName);
 		return this;
 	}
 
 	build(): Uint8Array {
-		throw new Error('Firestore bundles are not supported in firebase-admin-cloudflare yet.');
+		return encodeBundle({
+			bundleId: this.bundleId,
+			createTime: encodeTimestamp(this.latestReadTime),
+			namedQueries: [...this.namedQueries.values()],
+			documents: [...this.documents.values()]
+		});
 	}
+
+	private addNamedQuery(name: string, snapshot: QuerySnapshot<unknown>): void {
+		if (this.namedQueries.has(name)) {
+			throw new Error(`Query name conflict: '${name}' has already been added.`);
+		}
+		const readTime = snapshot.readTime;
+		if (!readTime) {
+			throw new Error(`BundleBuilder.add() requires a read time for query '${name}'.`);
+		}
+		this.namedQueries.set(name, {
+			name,
+			bundledQuery: snapshot.query._toBundledQuery(),
+			readTime: encodeTimestamp(readTime)
+		});
+		for (const doc of snapshot.docs) {
+			this.addDocument(doc, name);
+		}
+		this.trackReadTime(readTime);
+	}
+
+	private addDocument(snapshot: DocumentSnapshot<unknown>, queryName?: string): void {
+		const rest = snapshot.ref.firestore._getRestClient();
+		const name = rest.documentResourceName(snapshot.ref.path);
+		const readTime = snapshot.readTime;
+		// `DocumentReference.get()` only knows its read time when one was requested.
+		if (!readTime) {
+			throw new Error(
+				`BundleBuilder.add() requires a read time for '${snapshot.ref.path}'; read it with ` +
+					'`firestore.getAll()` or `get({ readTime })`.'
+			);
+		}
+		// Bundled documents are cached as complete documents by `loadBundle()`.
+		if (snapshot._isPartial()) {
+			throw new Error(
+				`BundleBuilder.add() cannot bundle '${snapshot.ref.path}', which was read with a field mask.`
+			);
+		}
+		const existing = this.documents.get(name);
+		const queries = existing ? [...existing.metadata.queries] : [];
+		if (queryName && !queries.includes(queryName)) {
+			queries.push(queryName);
+		}
+
+		const existingReadTime = existing ? decodeTimestamp(existing.metadata.readTime) : null;
+		if (!existing || !existingReadTime || compareTimestamps(existingReadTime, readTime) <= 0) {
+			this.documents.set(name, {
+				metadata: { name, readTime: encodeTimestamp(readTime), exists: snapshot.exists, queries },
+				document: snapshot.exists ? toBundledDocument(name, snapshot) : null
+			});
+		} else {
+			existing.metadata.queries = queries;
+		}
+		this.trackReadTime(readTime);
+	}
+
+	private trackReadTime(readTime: Timestamp): void {
+		if (compareTimestamps(readTime, this.latestReadTime) > 0) {
+			this.latestReadTime = readTime;
+		}
+	}
+}
+
+function toBundledDocument(name: string, snapshot: DocumentSnapshot<unknown>): FirestoreDocument {
+	const document = snapshot._getDocument();
+	if (document) {
+		return document;
+	}
+	const { fields } = encodeSetData({
+		data: snapshot._getRawData() ?? {},
+		merge: false,
+		ignoreUndefinedProperties: true
+	});
+	return {
+		name,
+		fields,
+		createTime: snapshot.createTime ? encodeTimestamp(snapshot.createTime) : undefined,
+		updateTime: snapshot.updateTime ? encodeTimestamp(snapshot.updateTime) : undefined
+	};
 }
 
 export class Transaction {
 	private readonly firestore: Firestore;
-	private readonly transactionId: string;
+	private readonly transactionId: string | null;
+	private readonly readOnly: boolean;
+	private readonly readTime: string | undefined;
 	private readonly writes: unknown[] = [];
 	private didWrite = false;
+	private commitResult: Promise<WriteResult[]> | null = null;
 
-	constructor(firestore: Firestore, transactionId: string) {
+	constructor(
+		firestore: Firestore,
+		transactionId: string | null,
+		options: { readOnly?: boolean; readTime?: string } = {}
+	) {
 		this.firestore = firestore;
 		this.transactionId = transactionId;
+		this.readOnly = options.readOnly ?? false;
+		this.readTime = options.readTime;
+	}
+
+	get<T>(ref: DocumentReference<T>): Promise<DocumentSnapshot<T>>;
+	get<T>(query: Query<T>): Promise<QuerySnapshot<T>>;
+	get<T>(aggregateQuery: AggregateQuery<T>): Promise<AggregateQuerySnapshot>;
+	async get<T>(
+		refOrQuery: DocumentReference<T> | Query<T> | AggregateQuery<T>
+	): Promise<DocumentSnapshot<T> | QuerySnapshot<T> | AggregateQuerySnapshot> {
+		this.assertCanRead();
+		const readOptions = {
+			transaction: this.transactionId ?? undefined,
+			readTime: this.readTime
+		};
+		if (refOrQuery instanceof DocumentReference) {
+			const [snapshot] = await fetchDocuments(this.firestore, [refOrQuery], readOptions);
+			return snapshot;
+		}
+		const { snapshot } = await refOrQuery._execute(readOptions);
+		return snapshot;
 	}
 
-	async get<T extends DocumentData>(ref: DocumentReference<T>): Promise<DocumentSnapshot<T>> {
-		if (this.didWrite) {
-			throw new Error('Firestore transactions require all reads to be performed before writes.');
-		}
-		const rest = this.firestore._getRestClient();
-		const docName = rest.documentResourceName(ref.path);
-		const responses = await rest.batchGetDocuments({
-			documentNames: [docName],
-			transaction: this.transactionId
-		});
-		const doc = responses.find((resp) => !!resp.found)?.found ?? null;
-		if (!doc) {
-			return new DocumentSnapshot<T>({ ref, exists: false, data: null });
+	async getAll<T>(
+		...refsOrOptions: Array<DocumentReference<T> | { fieldMask?: Array<string | FieldPath> }>
+	): Promise<Array<DocumentSnapshot<T>>> {
+		this.assertCanRead();
+		const last = refsOrOptions.at(-1);
+		const options = last && !(last instanceof DocumentReference) ? last : {};
+		const refs = refsOrOptions.filter(
+			(entry): entry is DocumentReference<T> => entry instanceof DocumentReference
+		);
+		if (refs.length === 0) {
+			throw new Error('Transaction.getAll() requires at least one DocumentReference.');
 		}
-		return new DocumentSnapshot<T>({
-			ref,
-			exists: true,
-			data: decodeDocumentData(doc, this.firestore) as T,
-			createTime: parseTimestampOrNull(doc.createTime),
-			updateTime: parseTimestampOrNull(doc.updateTime)
+		return await fetchDocuments(this.firestore, refs, {
+			transaction: this.transactionId ?? undefined,
+			readTime: this.readTime,
+			fieldMask: options.fieldMask
 		});
 	}
 
-	set<T extends DocumentData>(ref: DocumentReference<T>, data: T, options: SetOptions = {}): this {
+	set<T>(ref: DocumentReference<T>, data: WithFieldValue<T>): this;
+	set<T>(ref: DocumentReference<T>, data: PartialWithFieldValue<T>, options: SetOptions): this;
+	set<T>(
+		ref: DocumentReference<T>,
+		data: WithFieldValue<T> | PartialWithFieldValue<T>,
+		options: SetOptions = {}
+	): this {
 		const encoded = encodeSetData({
-			data,
+			data: toFirestoreData(ref, data, options),
 			merge: options.merge ?? false,
 			mergeFields: options.mergeFields,
 			ignoreUndefinedProperties: this.firestore._ignoreUndefinedProperties()
 		});
-		this.didWrite = true;
+		this.markWrite();
 		this.writes.push(buildUpdateWrite(this.firestore, ref, encoded, { precondition: null }));
 		return this;
 	}
 
-	create<T extends DocumentData>(ref: DocumentReference<T>, data: T): this {
+	create<T>(ref: DocumentReference<T>, data: WithFieldValue<T>): this {
 		const encoded = encodeSetData({
-			data,
+			data: toFirestoreData(ref, data),
 			merge: false,
 			ignoreUndefinedProperties: this.firestore._ignoreUndefinedProperties()
 		});
-		this.didWrite = true;
+		this.markWrite();
 		this.writes.push(
-			buildUpdateWrite(this.firestore, ref, encoded, { precondition: 'not-exists' })
+			buildUpdateWrite(this.firestore, ref, encoded, { precondition: { exists: false } })
 		);
 		return this;
 	}
 
-	update<T extends DocumentData>(ref: DocumentReference<T>, data: Record<string, unknown>): this;
-	update<T extends DocumentData>(
+	update<T>(
+		ref: DocumentReference<T>,
+		data: Record<string, unknown>,
+		precondition?: Precondition
+	): this;
+	update<T>(
 		ref: DocumentReference<T>,
 		field: string | FieldPath,
 		value: unknown,
-		...moreFieldsAndValues: unknown[]
+		...moreFieldsAndValuesOrPrecondition: unknown[]
 	): this;
-	update<T extends DocumentData>(
+	update<T>(
 		ref: DocumentReference<T>,
 		dataOrField: Record<string, unknown> | string | FieldPath,
 		value?: unknown,
 		...moreFieldsAndValues: unknown[]
 	): this {
 		const ignoreUndefinedProperties = this.firestore._ignoreUndefinedProperties();
-		let data: Record<string, unknown>;
-
-		if (typeof dataOrField === 'string' || dataOrField instanceof FieldPath) {
-			const pairs = [dataOrField, value, ...moreFieldsAndValues];
-			if (pairs.length < 2 || pairs.length % 2 !== 0) {
-				throw new Error('update() requires field/value pairs.');
-			}
-			const out: Record<string, unknown> = {};
-			for (let i = 0; i < pairs.length; i += 2) {
-				const fieldPath = pairs[i];
-				const fieldValue = pairs[i + 1];
-				if (!(typeof fieldPath === 'string' || fieldPath instanceof FieldPath)) {
-					throw new Error('update() field paths must be strings or FieldPath instances.');
-				}
-				const key = fieldPath instanceof FieldPath ? fieldPath.toString() : fieldPath;
-				out[key] = fieldValue;
-			}
-			data = out;
-		} else {
-			data = dataOrField;
-		}
+		const { data, precondition } = parseUpdateArguments(dataOrField, value, moreFieldsAndValues);
 
 		const encoded = encodeUpdateData({ data, ignoreUndefinedProperties });
-		this.didWrite = true;
-		this.writes.push(buildUpdateWrite(this.firestore, ref, encoded, { precondition: 'exists' }));
+		this.markWrite();
+		this.writes.push(buildUpdateWrite(this.firestore, ref, encoded, { precondition }));
 		return this;
 	}
 
-	delete<T extends DocumentData>(ref: DocumentReference<T>): this {
-		this.didWrite = true;
-		this.writes.push(buildDeleteWrite(this.firestore, ref));
+	delete<T>(ref: DocumentReference<T>, precondition?: Precondition): this {
+		this.markWrite();
+		this.writes.push(buildDeleteWrite(this.firestore, ref, precondition));
 		return this;
 	}
 
-	async commit(): Promise<void> {
-		await this.firestore
+	// `runTransaction()` commits once `updateFn` resolves; calling `commit()` from `updateFn` to read
+	// the `WriteResult`s commits once and shares the results with it.
+	commit(): Promise<WriteResult[]> {
+		this.commitResult ??= this.commitWrites();
+		return this.commitResult;
+	}
+
+	private async commitWrites(): Promise<WriteResult[]> {
+		if (this.readOnly) {
+			return [];
+		}
+		const resp = await this.firestore
 			._getRestClient()
-			.commit({ writes: this.writes, transaction: this.transactionId });
+			.commit({ writes: this.writes, transaction: this.transactionId ?? undefined });
+		return writeResultsFromCommit(this.firestore, resp, this.writes);
 	}
+
+	private assertCanRead(): void {
+		if (this.didWrite) {
+			throw new Error('Firestore transactions require all reads to be performed before writes.');
+		}
+	}
+
+	private markWrite(): void {
+		if (this.readOnly) {
+			throw new Error('Firestore read-only transactions cannot perform writes.');
+		}
+		if (this.commitResult) {
+			throw new Error('Firestore transactions cannot perform writes after commit().');
+		}
+		this.didWrite = true;
+	}
+}
+
+function toFirestoreData<T>(
+	ref: DocumentReference<T>,
+	data: WithFieldValue<T> | PartialWithFieldValue<T>,
+	options?: SetOptions
+): DocumentData {
+	const converter = ref._getConverter();
+	if (!converter) {
+		return data as DocumentData;
+	}
+	if (options && (options.merge || options.mergeFields)) {
+		return converter.toFirestore(data as PartialWithFieldValue<T>, options) as DocumentData;
+	}
+	return converter.toFirestore(data as WithFieldValue<T>) as DocumentData;
 }
 
-function buildUpdateWrite<T extends DocumentData>(
+function buildUpdateWrite<T>(
 	firestore: Firestore,
 	ref: DocumentReference<T>,
 	encoded: EncodedDocumentWrite,
-	options: { precondition: 'exists' | 'not-exists' | null }
+	options: { precondition: Precondition | null }
 ): unknown {
 	const rest = firestore._getRestClient();
 	const docName = rest.documentResourceName(ref.path);
@@ -2588,36 +3846,190 @@ function buildUpdateWrite<T extends DocumentData>(
 	if (encoded.updateTransforms) {
 		write.updateTransforms = encoded.updateTransforms;
 	}
-	if (options.precondition === 'exists') {
-		write.currentDocument = { exists: true };
-	}
-	if (options.precondition === 'not-exists') {
-		write.currentDocument = { exists: false };
+	if (options.precondition) {
+		write.currentDocument = encodePrecondition(options.precondition);
 	}
 	return write;
 }
 
-function buildDeleteWrite<T extends DocumentData>(
+function buildDeleteWrite<T>(
 	firestore: Firestore,
-	ref: DocumentReference<T>
+	ref: DocumentReference<T>,
+	precondition?: Precondition
 ): unknown {
 	const rest = firestore._getRestClient();
-	return { delete: rest.documentResourceName(ref.path) };
+	const write: Record<string, unknown> = { delete: rest.documentResourceName(ref.path) };
+	if (precondition) {
+		write.currentDocument = encodePrecondition(precondition);
+	}
+	return write;
 }
 
-function writeResultFromCommit(resp: CommitResponse, index: number): WriteResult {
-	const updateTime = resp.writeResults?.[index]?.updateTime;
-	const fallback = resp.commitTime;
-	const parsed = parseTimestampOrNull(updateTime ?? fallback);
-	return new WriteResult(parsed ?? Timestamp.now());
+function encodePrecondition(precondition: Precondition): unknown {
+	if (precondition.lastUpdateTime !== undefined && precondition.exists !== undefined) {
+		throw new Error('Precondition can specify either "exists" or "lastUpdateTime", not both.');
+	}
+	if (precondition.lastUpdateTime !== undefined) {
+		if (!(precondition.lastUpdateTime instanceof Timestamp)) {
+			throw new Error('Precondition "lastUpdateTime" must be a Timestamp.');
+		}
+		return { updateTime: encodeTimestamp(precondition.lastUpdateTime) };
+	}
+	if (precondition.exists !== undefined) {
+		return { exists: precondition.exists };
+	}
+	return undefined;
 }
 
-function writeResultsFromCommit(resp: CommitResponse, expectedWrites: number): WriteResult[] {
-	const results: WriteResult[] = [];
-	for (let i = 0; i < expectedWrites; i += 1) {
-		results.push(writeResultFromCommit(resp, i));
+function parseUpdateArguments(
+	dataOrField: Record<string, unknown> | string | FieldPath,
+	value: unknown,
+	moreFieldsAndValues: unknown[]
+): { data: Record<string, unknown>; precondition: Precondition } {
+	if (!(typeof dataOrField === 'string' || dataOrField instanceof FieldPath)) {
+		return { data: dataOrField, precondition: parseUpdatePrecondition(value) };
 	}
-	return results;
+
+	const pairs = [dataOrField, value, ...moreFieldsAndValues];
+	let precondition: Precondition = { exists: true };
+	if (pairs.length % 2 !== 0 && isPlainObject(pairs[pairs.length - 1])) {
+		precondition = parseUpdatePrecondition(pairs.pop());
+	}
+	if (pairs.length < 2 || pairs.length % 2 !== 0) {
+		throw new Error('update() requires field/value pairs.');
+	}
+	const data: Record<string, unknown> = {};
+	for (let i = 0; i < pairs.length; i += 2) {
+		const fieldPath = pairs[i];
+		const fieldValue = pairs[i + 1];
+		if (!(typeof fieldPath === 'string' || fieldPath instanceof FieldPath)) {
+			throw new Error('update() field paths must be strings or FieldPath instances.');
+		}
+		const key = fieldPath instanceof FieldPath ? fieldPath.toString() : fieldPath;
+		data[key] = fieldValue;
+	}
+	return { data, precondition };
+}
+
+function parseUpdatePrecondition(value: unknown): Precondition {
+	if (value === undefined) {
+		return { exists: true };
+	}
+	if (!isPlainObject(value)) {
+		throw new Error('update() precondition must be an object.');
+	}
+	const precondition = value as Precondition;
+	if (precondition.exists === false) {
+		throw new Error('update() does not support an "exists: false" precondition.');
+	}
+	if (precondition.lastUpdateTime === undefined) {
+		return { exists: true };
+	}
+	return precondition;
+}
+
+function decodeWriteResult(
+	firestore: Firestore,
+	write: unknown,
+	writeResult: NonNullable<CommitResponse['writeResults']>[number] | undefined,
+	fallbackTime?: string
+): WriteResult {
+	const parsed = parseTimestampOrNull(writeResult?.updateTime ?? fallbackTime);
+	const updateTransforms = (write as { updateTransforms?: Array<{ fieldPath: string }> })
+		.updateTransforms;
+	const transformResults: Record<string, unknown> = {};
+	if (updateTransforms && writeResult?.transformResults) {
+		const referenceValueResolver = createReferenceValueResolver(firestore);
+		updateTransforms.forEach((transform, i) => {
+			const value = writeResult.transformResults?.[i];
+			if (value) {
+				transformResults[transform.fieldPath] = fromFirestoreValue(value, {
+					referenceValueResolver
+				});
+			}
+		});
+	}
+	return new WriteResult(parsed ?? Timestamp.now(), transformResults);
+}
+
+function writeResultFromCommit(
+	firestore: Firestore,
+	resp: CommitResponse,
+	writes: unknown[],
+	index: number
+): WriteResult {
+	return decodeWriteResult(firestore, writes[index], resp.writeResults?.[index], resp.commitTime);
+}
+
+function writeResultsFromCommit(
+	firestore: Firestore,
+	resp: CommitResponse,
+	writes: unknown[]
+): WriteResult[] {
+	return writes.map((_, i) => writeResultFromCommit(firestore, resp, writes, i));
+}
+
+async function listAllCollectionIds(
+	rest: FirestoreRestClient,
+	parentResourceName: string
+): Promise<string[]> {
+	const collectionIds: string[] = [];
+	let pageToken: string | null = null;
+	do {
+		const resp = await rest.listCollectionIds({
+			parentResourceName,
+			pageToken: pageToken ?? undefined
+		});
+		collectionIds.push(...resp.collectionIds);
+		pageToken = resp.nextPageToken;
+	} while (pageToken);
+	return collectionIds;
+}
+
+const RECURSIVE_DELETE_PAGE_SIZE = 1000;
+
+// Kindless all-descendants query over `__name__`, which also finds documents nested under
+// missing ("phantom") parents. Collections are bounded to names in `<collection>/...`.
+function buildDescendantsQuery(
+	rest: FirestoreRestClient,
+	ref: CollectionReference<unknown> | DocumentReference<unknown>,
+	limit: number,
+	startAfterName: string | null
+): { parentResourceName: string; structuredQuery: unknown } {
+	const nameField = { fieldPath: '__name__' };
+	const parentPath = ref instanceof DocumentReference ? ref.path : (ref.parent?.path ?? '');
+	const parentResourceName = parentPath
+		? rest.documentResourceName(parentPath)
+		: `${rest.databaseResourceName()}/documents`;
+	const structuredQuery: Record<string, unknown> = {
+		from: [{ allDescendants: true }],
+		select: { fields: [nameField] },
+		orderBy: [{ field: nameField, direction: 'ASCENDING' }],
+		limit
+	};
+	if (ref instanceof CollectionReference) {
+		const nullChar = String.fromCharCode(0);
+		const bound = (op: string, path: string) => ({
+			fieldFilter: {
+				field: nameField,
+				op,
+				value: { referenceValue: rest.documentResourceName(path) }
+			}
+		});
+		structuredQuery.where = {
+			compositeFilter: {
+				op: 'AND',
+				filters: [
+					bound('GREATER_THAN_OR_EQUAL', `${ref.path}/${nullChar}`),
+					bound('LESS_THAN', `${ref.path}${nullChar}/${nullChar}`)
+				]
+			}
+		};
+	}
+	if (startAfterName) {
+		structuredQuery.startAt = { before: false, values: [{ referenceValue: startAfterName }] };
+	}
+	return { parentResourceName, structuredQuery };
 }
 
 function decodeDocumentPathFromName(resourceName: string, databaseResourceName: string): string {
@@ -2628,14 +4040,26 @@ function decodeDocumentPathFromName(resourceName: string, databaseResourceName:
 	return resourceName.slice(prefix.length);
 }
 
-const firestoreInstances = new WeakMap<App, Firestore>();
+const firestoreInstances = new WeakMap<App, Map<string, Firestore>>();
 
-export function getFirestore(app: App = getApp()): Firestore {
-	const existing = firestoreInstances.get(app);
+export function getFirestore(app?: App, databaseId?: string): Firestore;
+export function getFirestore(databaseId: string): Firestore;
+export function getFirestore(appOrDatabaseId?: App | string, maybeDatabaseId?: string): Firestore {
+	const app = typeof appOrDatabaseId === 'object' ? appOrDatabaseId : getApp();
+	const databaseId = DatabaseIdSchema.parse(
+		typeof appOrDatabaseId === 'string' ? appOrDatabaseId : (maybeDatabaseId ?? DEFAULT_DATABASE_ID)
+	);
+
+	let instances = firestoreInstances.get(app);
+	if (!instances) {
+		instances = new Map();
+		firestoreInstances.set(app, instances);
+	}
+	const existing = instances.get(databaseId);
 	if (existing) {
 		return existing;
 	}
-	const firestore = new Firestore({ app });
-	firestoreInstances.set(app, firestore);
+	const firestore = new Firestore({ app, databaseId });
+	instances.set(databaseId, firestore);
 	return firestore;
 }
@@ -4,13 +4,39 @@ export { Filter, type FilterNode } from './filter.js';
 export { Bytes } from './bytes.js';
 export { GeoPoint } from './geo-point.js';
 export { Timestamp } from './timestamp.js';
+export {
+	FirestoreApiError,
+	FirestoreError,
+	type FirestoreErrorCode,
+	type FirestoreErrorDetail
+} from './errors.js';
+export { snapshotEventStream, type SnapshotEventStreamOptions } from './event-stream.js';
+export { VectorValue } from './vector-value.js';
 export type {
 	BulkWriterOptions,
 	DocumentChange,
 	DocumentChangeType,
 	DocumentData,
+	DocumentReadOptions,
+	Duration,
+	ExecutionStats,
+	ExplainMetrics,
+	ExplainOptions,
+	FirestoreDataConverter,
+	ListDocumentsOptions,
+	ListDocumentsPage,
+	PartialWithFieldValue,
+	PlanSummary,
+	Precondition,
+	ReadOnlyTransactionOptions,
+	ReadOptions,
+	ReadWriteTransactionOptions,
+	RecursiveDeleteOptions,
+	RecursiveDeleteResult,
 	SetOptions,
-	TransactionOptions
+	TransactionOptions,
+	VectorQueryOptions,
+	WithFieldValue
 } from './firestore.js';
 export {
 	AggregateField,
@@ -22,6 +48,7 @@ export {
 	CollectionReference,
 	DocumentReference,
 	DocumentSnapshot,
+	ExplainResults,
 	Firestore,
 	Query,
 	QueryDocumentSnapshot,
@@ -29,6 +56,7 @@ export {
 	QuerySnapshot,
 	SnapshotMetadata,
 	Transaction,
+	VectorQuery,
 	WriteResult,
 	WriteBatch,
 	getFirestore
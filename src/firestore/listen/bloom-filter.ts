@@ -0,0 +1,143 @@
+import { Bytes } from '../bytes.js';
+
+import type { BloomFilterData } from './types.js';
+
+const MD5_SHIFTS = [
+	7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14,
+	20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6,
+	10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+const MD5_CONSTANTS = Array.from(
+	{ length: 64 },
+	(_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0
+);
+
+const UINT64_MODULUS = 1n << 64n;
+
+function rotateLeft(value: number, bits: number): number {
+	return ((value << bits) | (value >>> (32 - bits))) >>> 0;
+}
+
+// WebCrypto has no MD5 and the watch handlers are synchronous, so the digest is computed inline.
+export function md5(input: Uint8Array): Uint8Array {
+	const paddedLength = (((input.length + 8) >>> 6) + 1) << 6;
+	const buffer = new Uint8Array(paddedLength);
+	buffer.set(input);
+	buffer[input.length] = 0x80;
+	const view = new DataView(buffer.buffer);
+	const bitLength = input.length * 8;
+	view.setUint32(paddedLength - 8, bitLength >>> 0, true);
+	view.setUint32(paddedLength - 4, Math.floor(bitLength / 2 ** 32), true);
+
+	let a0 = 0x67452301;
+	let b0 = 0xefcdab89;
+	let c0 = 0x98badcfe;
+	let d0 = 0x10325476;
+	for (let offset = 0; offset < paddedLength; offset += 64) {
+		let a = a0;
+		let b = b0;
+		let c = c0;
+		let d = d0;
+		for (let i = 0; i < 64; i += 1) {
+			let f: number;
+			let g: number;
+			if (i < 16) {
+				f = (b & c) | (~b & d);
+				g = i;
+			} else if (i < 32) {
+				f = (d & b) | (~d & c);
+				g = (5 * i + 1) % 16;
+			} else if (i < 48) {
+				f = b ^ c ^ d;
+				g = (3 * i + 5) % 16;
+			} else {
+				f = c ^ (b | ~d);
+				g = (7 * i) % 16;
+			}
+			const sum = (a + f + MD5_CONSTANTS[i] + view.getUint32(offset + g * 4, true)) >>> 0;
+			a = d;
+			d = c;
+			c = b;
+			b = (b + rotateLeft(sum, MD5_SHIFTS[i])) >>> 0;
+		}
+		a0 = (a0 + a) >>> 0;
+		b0 = (b0 + b) >>> 0;
+		c0 = (c0 + c) >>> 0;
+		d0 = (d0 + d) >>> 0;
+	}
+
+	const out = new Uint8Array(16);
+	const outView = new DataView(out.buffer);
+	outView.setUint32(0, a0, true);
+	outView.setUint32(4, b0, true);
+	outView.setUint32(8, c0, true);
+	outView.setUint32(12, d0, true);
+	return out;
+}
+
+// The bloom filter sent in `ExistenceFilter.unchangedNames`: document names are hashed with MD5,
+// split into two little-endian 64-bit halves, and probed at `h1 + i * h2` for each hash round.
+export class BloomFilter {
+	private readonly bitmap: Uint8Array;
+	private readonly bitCount: number;
+	private readonly hashCount: number;
+
+	constructor(bitmap: Uint8Array, padding: number, hashCount: number) {
+		if (!Number.isInteger(padding) || padding < 0 || padding >= 8) {
+			throw new Error(`Invalid bloom filter padding: ${String(padding)}`);
+		}
+		if (!Number.isInteger(hashCount) || hashCount < 0) {
+			throw new Error(`Invalid bloom filter hash count: ${String(hashCount)}`);
+		}
+		if (bitmap.length > 0 && hashCount === 0) {
+			throw new Error('Invalid bloom filter: a non-empty bitmap needs a hash count.');
+		}
+		if (bitmap.length === 0 && padding !== 0) {
+			throw new Error('Invalid bloom filter: an empty bitmap cannot have padding.');
+		}
+		this.bitmap = bitmap;
+		this.bitCount = bitmap.length * 8 - padding;
+		this.hashCount = hashCount;
+	}
+
+	get size(): number {
+		return this.bitCount;
+	}
+
+	mightContain(value: string): boolean {
+		if (this.bitCount === 0) {
+			return false;
+		}
+		const digest = new DataView(md5(new TextEncoder().encode(value)).buffer);
+		const h1 = digest.getBigUint64(0, true);
+		const h2 = digest.getBigUint64(8, true);
+		const bitCount = BigInt(this.bitCount);
+		for (let i = 0; i < this.hashCount; i += 1) {
+			const index = Number(((h1 + BigInt(i) * h2) % UINT64_MODULUS) % bitCount);
+			if ((this.bitmap[Math.floor(index / 8)] & (1 << (index % 8))) === 0) {
+				return false;
+			}
+		}
+		return true;
+	}
+}
+
+// Returns null when the filter is missing, malformed or empty, in which case the target has to be
+// reset instead.
+export function parseBloomFilter(data: BloomFilterData | undefined): BloomFilter | null {
+	if (!data) {
+		return null;
+	}
+	let bloomFilter: BloomFilter;
+	try {
+		bloomFilter = new BloomFilter(
+			Bytes.fromBase64String(data.bits?.bitmap ?? '').toUint8Array(),
+			data.bits?.padding ?? 0,
+			data.hashCount ?? 0
+		);
+	} catch {
+		return null;
+	}
+	return bloomFilter.size === 0 ? null : bloomFilter;
+}
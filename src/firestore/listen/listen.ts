@@ -1,240 +1,140 @@
-import { z } from 'zod';
+import type { FirestoreDocument } from '../rest/types.js';
 
-import type { FirestoreRestClient } from '../rest/client.js';
-import { FirestoreApiError } from '../rest/client.js';
-import type { FirestoreValue } from '../rest/types.js';
-import { fromFirestoreValue } from '../rest/value.js';
-
-import { openWebChannel } from './webchannel.js';
-import { ListenResponseSchema, type ListenResponse, WebChannelErrorSchema } from './types.js';
-
-const AddTargetRequestSchema = z.object({
-	database: z.string().min(1),
-	addTarget: z.object({
-		targetId: z.number().int().positive(),
-		documents: z.object({
-			documents: z.array(z.string().min(1)).min(1)
-		})
-	})
-});
-
-const AddTargetQueryRequestSchema = z.object({
-	database: z.string().min(1),
-	addTarget: z.object({
-		targetId: z.number().int().positive(),
-		query: z.object({
-			parent: z.string().min(1),
-			structuredQuery: z.unknown()
-		})
-	})
-});
+import type { ListenResponse } from './types.js';
+import type { FirestoreLike, WatchStream } from './watch-stream.js';
 
 type Unsubscribe = () => void;
 
-export type FirestoreListenDocumentEvent = {
-	exists: boolean;
-	data: Record<string, unknown> | null;
+type ListenFirestore = FirestoreLike & {
+	_getWatchStream(): WatchStream;
 };
 
-type FirestoreLike = {
-	_getRestClient(): FirestoreRestClient;
-	_getBaseUrl(): string;
-	_getAccessToken(): Promise<string | null>;
+export type FirestoreListenDocumentEvent = {
+	exists: boolean;
+	document: FirestoreDocument | null;
+	readTime?: string;
+	// True while the listener is catching up after a reset or reconnect.
+	fromCache: boolean;
 };
 
-function decodeDocumentFields(
-	fields: Record<string, FirestoreValue> | undefined,
-	options: { referenceValueResolver?: (resourceName: string) => unknown } = {}
-): Record<string, unknown> {
-	const out: Record<string, unknown> = {};
-	for (const [key, value] of Object.entries(fields ?? {})) {
-		out[key] = fromFirestoreValue(value, {
-			referenceValueResolver: options.referenceValueResolver
-		});
+function isSameDocument(a: FirestoreDocument | null, b: FirestoreDocument | null): boolean {
+	if (a === null || b === null) {
+		return a === b;
 	}
-	return out;
+	return a.updateTime === b.updateTime;
 }
 
-export async function listenToDocument(options: {
-	firestore: FirestoreLike;
+// Document changes are buffered and only reported once the target is CURRENT, so every event
+// carries the read time of a consistent snapshot. Missing documents are reported as well.
+export function listenToDocument(options: {
+	firestore: ListenFirestore;
 	documentPath: string;
-	referenceValueResolver?: (resourceName: string) => unknown;
+	includeMetadataChanges?: boolean;
 	onNext: (event: FirestoreListenDocumentEvent) => void;
 	onError?: (error: unknown) => void;
 }): Promise<Unsubscribe> {
 	const rest = options.firestore._getRestClient();
-	const database = rest.databaseResourceName();
 	const documentName = rest.documentResourceName(options.documentPath);
-	const accessToken = await options.firestore._getAccessToken();
 
-	const headers: Record<string, string> = {};
-	if (accessToken) {
-		headers.Authorization = `Bearer ${accessToken}`;
-	}
-
-	let closed = false;
-	let closeResolver: (() => void) | null = null;
-	const closedPromise = new Promise<void>((resolve) => {
-		closeResolver = resolve;
-	});
-
-	const listener = openWebChannel({
-		baseUrl: options.firestore._getBaseUrl(),
-		rpcPath: 'google.firestore.v1.Firestore',
-		methodName: 'Listen',
-		database,
-		initMessageHeaders: headers,
-		onMessage(message) {
-			if (closed) {
-				return;
-			}
-
-			const errorParsed = WebChannelErrorSchema.safeParse(message);
-			if (errorParsed.success) {
-				const status = errorParsed.data.error.status ?? 'UNKNOWN';
-				const msg = errorParsed.data.error.message ?? 'WebChannel error';
-				options.onError?.(new FirestoreApiError(msg, { httpStatus: 0, apiStatus: status }));
-				listener.close();
-				return;
-			}
+	let document: FirestoreDocument | null = null;
+	let current = false;
+	let synced = false;
+	let pending = true;
+	let last: FirestoreListenDocumentEvent | null = null;
 
-			const parsed = ListenResponseSchema.safeParse(message);
-			if (!parsed.success) {
+	const emit = (readTime: string | undefined) => {
+		const fromCache = !synced;
+		if (last && isSameDocument(last.document, document)) {
+			if (!options.includeMetadataChanges || last.fromCache === fromCache) {
 				return;
 			}
-
-			const value = parsed.data;
-			if ('documentChange' in value) {
-				const doc = value.documentChange.document;
-				const data = decodeDocumentFields(doc.fields, {
-					referenceValueResolver: options.referenceValueResolver
-				});
-				options.onNext({ exists: true, data });
-				return;
-			}
-
-			if ('documentDelete' in value || 'documentRemove' in value) {
-				options.onNext({ exists: false, data: null });
-				return;
-			}
-		},
-		onError(error) {
-			if (closed) {
-				return;
-			}
-			options.onError?.(error);
-		},
-		onClose() {
-			if (closed) {
-				return;
-			}
-			closed = true;
-			closeResolver?.();
-		}
-	});
-
-	const request = AddTargetRequestSchema.parse({
-		database,
-		addTarget: {
-			targetId: 1,
-			documents: { documents: [documentName] }
 		}
-	});
-	listener.send(request);
+		last = { exists: document !== null, document, readTime, fromCache };
+		options.onNext(last);
+	};
 
-	return () => {
-		if (closed) {
-			return;
+	const removeTarget = options.firestore._getWatchStream().addTarget(
+		{ documents: { documents: [documentName] } },
+		{
+			onMessage(value, targetId) {
+				if ('documentChange' in value) {
+					const change = value.documentChange;
+					document = change.targetIds?.includes(targetId) ? change.document : null;
+					pending = true;
+					return;
+				}
+
+				if ('documentDelete' in value || 'documentRemove' in value) {
+					document = null;
+					pending = true;
+					return;
+				}
+
+				// A target resumed from a resume token learns of a deletion it missed through an
+				// existence filter with a count of zero.
+				if ('filter' in value) {
+					if (value.filter.targetId === targetId && (value.filter.count ?? 0) === 0 && document) {
+						document = null;
+						pending = true;
+					}
+					return;
+				}
+
+				if (!('targetChange' in value)) {
+					return;
+				}
+				const type = value.targetChange.targetChangeType ?? 'NO_CHANGE';
+				if (type === 'RESET') {
+					document = null;
+					current = false;
+					synced = false;
+					pending = true;
+					return;
+				}
+				if (type === 'CURRENT') {
+					current = true;
+					synced = true;
+				}
+				if (!current || (type !== 'CURRENT' && type !== 'NO_CHANGE')) {
+					return;
+				}
+				if (pending || options.includeMetadataChanges) {
+					pending = false;
+					emit(value.targetChange.readTime);
+				}
+			},
+			onError: options.onError,
+			onDisconnect() {
+				synced = false;
+				if (current && last) {
+					emit(last.readTime);
+				}
+			}
 		}
-		closed = true;
-		listener.close();
-		closeResolver?.();
-		void closedPromise;
-	};
+	);
+	return Promise.resolve(removeTarget);
 }
 
-export async function listenToQuery(options: {
-	firestore: FirestoreLike;
+export function listenToQuery(options: {
+	firestore: ListenFirestore;
 	parentResourceName: string;
 	structuredQuery: unknown;
-	onMessage: (message: ListenResponse) => void;
+	onMessage: (message: ListenResponse, targetId: number) => void;
 	onError?: (error: unknown) => void;
+	onDisconnect?: () => void;
 }): Promise<Unsubscribe> {
-	const rest = options.firestore._getRestClient();
-	const database = rest.databaseResourceName();
-	const accessToken = await options.firestore._getAccessToken();
-
-	const headers: Record<string, string> = {};
-	if (accessToken) {
-		headers.Authorization = `Bearer ${accessToken}`;
-	}
-
-	let closed = false;
-	let closeResolver: (() => void) | null = null;
-	const closedPromise = new Promise<void>((resolve) => {
-		closeResolver = resolve;
-	});
-
-	const listener = openWebChannel({
-		baseUrl: options.firestore._getBaseUrl(),
-		rpcPath: 'google.firestore.v1.Firestore',
-		methodName: 'Listen',
-		database,
-		initMessageHeaders: headers,
-		onMessage(message) {
-			if (closed) {
-				return;
-			}
-
-			const errorParsed = WebChannelErrorSchema.safeParse(message);
-			if (errorParsed.success) {
-				const status = errorParsed.data.error.status ?? 'UNKNOWN';
-				const msg = errorParsed.data.error.message ?? 'WebChannel error';
-				options.onError?.(new FirestoreApiError(msg, { httpStatus: 0, apiStatus: status }));
-				listener.close();
-				return;
-			}
-
-			const parsed = ListenResponseSchema.safeParse(message);
-			if (!parsed.success) {
-				return;
-			}
-			options.onMessage(parsed.data);
-		},
-		onError(error) {
-			if (closed) {
-				return;
-			}
-			options.onError?.(error);
-		},
-		onClose() {
-			if (closed) {
-				return;
-			}
-			closed = true;
-			closeResolver?.();
-		}
-	});
-
-	const request = AddTargetQueryRequestSchema.parse({
-		database,
-		addTarget: {
-			targetId: 1,
+	const removeTarget = options.firestore._getWatchStream().addTarget(
+		{
 			query: {
 				parent: options.parentResourceName,
 				structuredQuery: options.structuredQuery
 			}
+		},
+		{
+			onMessage: options.onMessage,
+			onError: options.onError,
+			onDisconnect: options.onDisconnect
 		}
-	});
-	listener.send(request);
-
-	return () => {
-		if (closed) {
-			return;
-		}
-		closed = true;
-		listener.close();
-		closeResolver?.();
-		void closedPromise;
-	};
+	);
+	return Promise.resolve(removeTarget);
 }
@@ -11,11 +11,14 @@ const TargetChangeSchema = z.object({
 		.object({
 			code: z.number().int().optional(),
 			message: z.string().optional(),
-			status: z.string().optional()
+			status: z.string().optional(),
+			details: z.array(z.unknown()).optional()
 		})
 		.optional()
 });
 
+export type TargetChange = z.infer<typeof TargetChangeSchema>;
+
 const DocumentChangeSchema = z.object({
 	document: FirestoreDocumentSchema,
 	targetIds: z.array(z.number().int()).optional(),
@@ -33,10 +36,22 @@ const DocumentRemoveSchema = z.object({
 	removedTargetIds: z.array(z.number().int()).optional()
 });
 
+const BloomFilterSchema = z.object({
+	bits: z
+		.object({
+			bitmap: z.string().optional(),
+			padding: z.number().int().optional()
+		})
+		.optional(),
+	hashCount: z.number().int().optional()
+});
+
+export type BloomFilterData = z.infer<typeof BloomFilterSchema>;
+
 const FilterSchema = z.object({
 	targetId: z.number().int(),
 	count: z.number().int().optional(),
-	unchangedNames: z.string().optional()
+	unchangedNames: BloomFilterSchema.optional()
 });
 
 export const ListenResponseSchema = z.union([
@@ -51,7 +66,9 @@ export type ListenResponse = z.infer<typeof ListenResponseSchema>;
 
 export const WebChannelErrorSchema = z.object({
 	error: z.object({
+		code: z.number().int().optional(),
 		status: z.string().optional(),
-		message: z.string().optional()
+		message: z.string().optional(),
+		details: z.array(z.unknown()).optional()
 	})
 });
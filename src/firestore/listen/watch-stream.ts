@@ -0,0 +1,383 @@
+import { FirestoreError } from '../errors.js';
+import type { FirestoreRestClient } from '../rest/client.js';
+
+import {
+	ListenResponseSchema,
+	type ListenResponse,
+	type TargetChange,
+	WebChannelErrorSchema
+} from './types.js';
+import { openWebChannel, type WebChannelListener } from './webchannel.js';
+
+export type FirestoreLike = {
+	_getRestClient(): FirestoreRestClient;
+	_getBaseUrl(): string;
+	_getAccessToken(): Promise<string | null>;
+};
+
+export type WatchTarget =
+	| { documents: { documents: string[] } }
+	| { query: { parent: string; structuredQuery: unknown } };
+
+export type WatchTargetHandlers = {
+	onMessage: (message: ListenResponse, targetId: number) => void;
+	onError?: (error: unknown) => void;
+	// Called when the stream drops and the target is no longer in sync until it is CURRENT again.
+	onDisconnect?: () => void;
+};
+
+type TargetState = {
+	targetId: number;
+	target: WatchTarget;
+	handlers: WatchTargetHandlers;
+	current: boolean;
+	resumeToken: string | null;
+	readTime: string | null;
+	// REMOVE acknowledgements still expected from `resetTarget()`; messages until then are stale.
+	pendingRemovals: number;
+};
+
+const INITIAL_BACKOFF_MS = 1000;
+const BACKOFF_FACTOR = 1.5;
+const MAX_BACKOFF_MS = 60_000;
+const BACKOFF_JITTER = 0.5;
+// Authentication failures in a row (fetching the access token, or the stream rejecting it) before
+// listeners are failed, e.g. for a malformed service account key.
+const MAX_AUTH_FAILURES = 3;
+
+// Stream-level errors that won't go away by reconnecting.
+const PERMANENT_ERROR_STATUSES = new Set([
+	'INVALID_ARGUMENT',
+	'NOT_FOUND',
+	'PERMISSION_DENIED',
+	'FAILED_PRECONDITION',
+	'UNIMPLEMENTED'
+]);
+
+// A `Listen` stream over WebChannel shared by all listeners of a `Firestore` instance. Each listener
+// owns a target id and only receives the messages addressed to it. The stream is opened with the
+// first target, closed with the last one, and reconnects with exponential backoff; targets are
+// re-added with their last consistent `resumeToken` (or `readTime`), so listeners only receive
+// the changes they missed; targets without one are replayed from a synthetic RESET.
+export class WatchStream {
+	private readonly firestore: FirestoreLike;
+	private readonly targets = new Map<number, TargetState>();
+	private channel: WebChannelListener | null = null;
+	private generation = 0;
+	private nextTargetId = 1;
+	private backoffMs = INITIAL_BACKOFF_MS;
+	private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	// Generation of the `connect()` still waiting on its access token, if any.
+	private connectingGeneration: number | null = null;
+	private authFailures = 0;
+	private closed = false;
+
+	constructor(firestore: FirestoreLike) {
+		this.firestore = firestore;
+	}
+
+	addTarget(target: WatchTarget, handlers: WatchTargetHandlers): () => void {
+		const state: TargetState = {
+			targetId: this.nextTargetId,
+			target,
+			handlers,
+			current: false,
+			resumeToken: null,
+			readTime: null,
+			pendingRemovals: 0
+		};
+		this.nextTargetId += 1;
+		this.targets.set(state.targetId, state);
+		if (this.closed) {
+			this.closed = false;
+			this.backoffMs = INITIAL_BACKOFF_MS;
+			this.authFailures = 0;
+		}
+		if (this.channel) {
+			this.sendAddTarget(state);
+		} else if (!this.reconnectTimer && this.connectingGeneration !== this.generation) {
+			void this.connect({ reconnect: false });
+		}
+		return () => {
+			this.removeTarget(state.targetId);
+		};
+	}
+
+	private removeTarget(targetId: number): void {
+		if (!this.targets.delete(targetId)) {
+			return;
+		}
+		if (this.targets.size === 0) {
+			this.close();
+			return;
+		}
+		this.channel?.send({ database: this.database(), removeTarget: targetId });
+	}
+
+	// Listens to a target again from scratch, discarding its resume token. Used when the client
+	// can no longer trust its view of the target, e.g. after an existence filter mismatch.
+	resetTarget(targetId: number): void {
+		const state = this.targets.get(targetId);
+		if (!state) {
+			return;
+		}
+		state.current = false;
+		state.resumeToken = null;
+		state.readTime = null;
+		if (this.channel) {
+			this.channel.send({ database: this.database(), removeTarget: targetId });
+			state.pendingRemovals += 1;
+			this.sendAddTarget(state);
+		}
+	}
+
+	close(): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.generation += 1;
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+		this.channel?.close();
+		this.channel = null;
+	}
+
+	private async connect(options: { reconnect: boolean }): Promise<void> {
+		this.generation += 1;
+		const generation = this.generation;
+
+		// The access token is fetched on every (re)connect so expired tokens are refreshed.
+		let accessToken: string | null;
+		this.connectingGeneration = generation;
+		try {
+			accessToken = await this.firestore._getAccessToken();
+		} catch (error) {
+			if (this.closed || generation !== this.generation) {
+				return;
+			}
+			this.authFailures += 1;
+			if (this.authFailures < MAX_AUTH_FAILURES) {
+				this.handleStreamFailure(generation, error);
+				return;
+			}
+			const message = error instanceof Error ? error.message : String(error);
+			this.handleStreamFailure(
+				generation,
+				new FirestoreError(`Failed to get an access token for the Listen stream: ${message}`, {
+					apiStatus: 'UNAUTHENTICATED',
+					method: 'Listen'
+				}),
+				{ permanent: true }
+			);
+			return;
+		} finally {
+			if (this.connectingGeneration === generation) {
+				this.connectingGeneration = null;
+			}
+		}
+		if (this.closed || generation !== this.generation) {
+			return;
+		}
+
+		const headers: Record<string, string> = {};
+		if (accessToken) {
+			headers.Authorization = `Bearer ${accessToken}`;
+		}
+		this.channel = openWebChannel({
+			baseUrl: this.firestore._getBaseUrl(),
+			rpcPath: 'google.firestore.v1.Firestore',
+			methodName: 'Listen',
+			database: this.database(),
+			initMessageHeaders: headers,
+			onMessage: (message) => {
+				this.handleMessage(generation, message);
+			},
+			onError: (error) => {
+				this.handleStreamFailure(generation, error);
+			},
+			onClose: () => {
+				this.handleStreamFailure(generation, null);
+			}
+		});
+
+		for (const state of this.targets.values()) {
+			state.pendingRemovals = 0;
+			if (options.reconnect && state.resumeToken === null && state.readTime === null) {
+				state.handlers.onMessage(
+					{ targetChange: { targetChangeType: 'RESET', targetIds: [state.targetId] } },
+					state.targetId
+				);
+			}
+			this.sendAddTarget(state);
+		}
+	}
+
+	private sendAddTarget(state: TargetState): void {
+		const addTarget: Record<string, unknown> = { targetId: state.targetId, ...state.target };
+		if (state.resumeToken !== null) {
+			addTarget.resumeToken = state.resumeToken;
+		} else if (state.readTime !== null) {
+			addTarget.readTime = state.readTime;
+		}
+		this.channel?.send({ database: this.database(), addTarget });
+	}
+
+	private handleMessage(generation: number, message: unknown): void {
+		if (this.closed || generation !== this.generation) {
+			return;
+		}
+
+		const errorParsed = WebChannelErrorSchema.safeParse(message);
+		if (errorParsed.success) {
+			const { code, status, message: msg, details } = errorParsed.data.error;
+			this.handleStreamFailure(
+				generation,
+				new FirestoreError(msg ?? 'WebChannel error', {
+					apiStatus: status,
+					grpcStatus: code,
+					details,
+					method: 'Listen'
+				})
+			);
+			return;
+		}
+
+		const parsed = ListenResponseSchema.safeParse(message);
+		if (!parsed.success) {
+			return;
+		}
+		this.backoffMs = INITIAL_BACKOFF_MS;
+		this.authFailures = 0;
+
+		const value = parsed.data;
+		const targetIds = messageTargetIds(value, this.targets);
+		if ('targetChange' in value) {
+			this.trackTargetChange(value.targetChange);
+		}
+		for (const targetId of targetIds) {
+			// A handler may remove other targets while this message is being delivered.
+			const state = this.targets.get(targetId);
+			if (!state) {
+				continue;
+			}
+			if (state.pendingRemovals > 0) {
+				if ('targetChange' in value && value.targetChange.targetChangeType === 'REMOVE') {
+					state.pendingRemovals -= 1;
+				}
+				continue;
+			}
+			state.handlers.onMessage(value, targetId);
+		}
+	}
+
+	private trackTargetChange(change: TargetChange): void {
+		const targetIds = change.targetIds ?? [];
+		const affected =
+			targetIds.length === 0
+				? [...this.targets.values()]
+				: targetIds.flatMap((id) => this.targets.get(id) ?? []);
+
+		if (change.targetChangeType === 'REMOVE' && change.cause) {
+			const error = new FirestoreError(change.cause.message ?? 'Listen target removed', {
+				apiStatus: change.cause.status,
+				grpcStatus: change.cause.code,
+				details: change.cause.details,
+				method: 'Listen'
+			});
+			for (const state of affected) {
+				this.targets.delete(state.targetId);
+				state.handlers.onError?.(error);
+			}
+			if (this.targets.size === 0) {
+				this.close();
+			}
+			return;
+		}
+
+		for (const state of affected) {
+			if (state.pendingRemovals > 0) {
+				continue;
+			}
+			if (change.targetChangeType === 'CURRENT') {
+				state.current = true;
+			} else if (change.targetChangeType === 'RESET') {
+				state.current = false;
+			}
+			// Only tokens for a consistent (CURRENT) view are safe to resume from.
+			if (state.current && change.resumeToken) {
+				state.resumeToken = change.resumeToken;
+				state.readTime = change.readTime ?? state.readTime;
+			}
+		}
+	}
+
+	private handleStreamFailure(
+		generation: number,
+		error: unknown,
+		options: { permanent?: boolean } = {}
+	): void {
+		if (this.closed || generation !== this.generation) {
+			return;
+		}
+		this.generation += 1;
+		const channel = this.channel;
+		this.channel = null;
+		channel?.close();
+
+		const status = error instanceof FirestoreError ? error.apiStatus : null;
+		if (status === 'UNAUTHENTICATED') {
+			this.authFailures += 1;
+		}
+		if (
+			options.permanent ||
+			(status && PERMANENT_ERROR_STATUSES.has(status)) ||
+			this.authFailures >= MAX_AUTH_FAILURES
+		) {
+			// Failed targets are dropped so a later listener doesn't resubscribe them.
+			const states = [...this.targets.values()];
+			this.targets.clear();
+			this.close();
+			for (const state of states) {
+				state.handlers.onError?.(error);
+			}
+			return;
+		}
+
+		for (const state of [...this.targets.values()]) {
+			state.current = false;
+			state.handlers.onDisconnect?.();
+		}
+
+		const delayMs = this.backoffMs * (1 + BACKOFF_JITTER * (Math.random() * 2 - 1));
+		this.backoffMs = Math.min(this.backoffMs * BACKOFF_FACTOR, MAX_BACKOFF_MS);
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = null;
+			void this.connect({ reconnect: true });
+		}, delayMs);
+	}
+
+	private database(): string {
+		return this.firestore._getRestClient().databaseResourceName();
+	}
+}
+
+function messageTargetIds(message: ListenResponse, targets: Map<number, TargetState>): number[] {
+	if ('targetChange' in message) {
+		const targetIds = message.targetChange.targetIds ?? [];
+		return targetIds.length === 0 ? [...targets.keys()] : targetIds;
+	}
+	if ('documentChange' in message) {
+		const change = message.documentChange;
+		return [...new Set([...(change.targetIds ?? []), ...(change.removedTargetIds ?? [])])];
+	}
+	if ('documentDelete' in message) {
+		return message.documentDelete.removedTargetIds ?? [];
+	}
+	if ('documentRemove' in message) {
+		return message.documentRemove.removedTargetIds ?? [];
+	}
+	return [message.filter.targetId];
+}
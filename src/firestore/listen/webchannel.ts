@@ -1,19 +1,12 @@
-import {
-	WebChannel,
-	createWebChannelTransport
-} from '@firebase/webchannel-wrapper/webchannel-blob';
-
-import type {
-	WebChannel as WebChannelInstance,
-	WebChannelOptions
-} from '@firebase/webchannel-wrapper/webchannel-blob';
+import { FirestoreError } from '../errors.js';
+import type { FetchLike } from '../rest/client.js';
 
 export type WebChannelListener = {
 	close(): void;
 	send(message: unknown): void;
 };
 
-export function openWebChannel(options: {
+export type WebChannelOptions = {
 	baseUrl: string;
 	rpcPath: string;
 	methodName: string;
@@ -22,64 +15,344 @@ export function openWebChannel(options: {
 	onMessage: (message: unknown) => void;
 	onError: (error: Error) => void;
 	onClose: () => void;
-}): WebChannelListener {
-	const url = `${options.baseUrl.replace(/\/+$/g, '')}/${options.rpcPath}/${options.methodName}/channel`;
-
-	const transport = createWebChannelTransport();
-	const channelOptions: WebChannelOptions = {
-		httpSessionIdParam: 'gsessionid',
-		initMessageHeaders:
-			options.initMessageHeaders as unknown as WebChannelOptions['initMessageHeaders'],
-		// Required for backend stickiness / routing behavior.
-		messageUrlParams: { database: options.database },
-		sendRawJson: true,
-		supportsCrossDomainXhr: true,
-		encodeInitMessageHeaders: true,
-		useFetchStreams: true,
-		internalChannelParams: {
-			forwardChannelRequestTimeoutMs: 600_000
-		}
-	};
-
-	const channel: WebChannelInstance = transport.createWebChannel(url, channelOptions);
-
-	channel.listen(WebChannel.EventType.MESSAGE, (event) => {
-		const data = (event as { data?: unknown }).data;
-		if (Array.isArray(data)) {
-			for (const entry of data) {
-				options.onMessage(entry);
+	fetch?: FetchLike;
+};
+
+const PROTOCOL_VERSION = '8';
+const CLIENT_VERSION = '22';
+
+type QueuedMessage = { id: number; message: unknown };
+
+function randomParam(): string {
+	return (
+		Math.floor(Math.random() * 2 ** 31).toString(36) +
+		Math.abs(Math.floor(Math.random() * 2 ** 31) ^ Date.now()).toString(36)
+	);
+}
+
+// Session failures (e.g. 400 `Unknown SID`) and server errors are transient and only need a new
+// session; authentication, permission and routing failures keep their own status.
+const HTTP_FAILURE_STATUSES: Record<number, string> = {
+	401: 'UNAUTHENTICATED',
+	403: 'PERMISSION_DENIED',
+	404: 'NOT_FOUND'
+};
+
+function encodeHeaders(headers: Record<string, string>): string {
+	return Object.entries(headers)
+		.map(([name, value]) => `${name}:${value}\r\n`)
+		.join('');
+}
+
+// Responses are a sequence of `<length>\n<json>` chunks, where the length counts characters of the
+// JSON array that follows.
+async function* readChunks(body: ReadableStream<Uint8Array>): AsyncGenerator {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+			for (;;) {
+				const newline = buffer.indexOf('\n');
+				if (newline === -1) {
+					break;
+				}
+				const length = Number(buffer.slice(0, newline));
+				if (!Number.isInteger(length) || length < 0) {
+					throw new Error(`[webchannel] Invalid chunk length: ${buffer.slice(0, newline)}`);
+				}
+				if (buffer.length - newline - 1 < length) {
+					break;
+				}
+				const chunk = buffer.slice(newline + 1, newline + 1 + length);
+				buffer = buffer.slice(newline + 1 + length);
+				yield JSON.parse(chunk) as unknown;
+			}
+			if (done) {
+				return;
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+// A fetch-based client for the WebChannel (BrowserChannel v8) protocol used by the Firestore
+// `Listen` RPC. Messages are sent on the forward channel as form-encoded POSTs, one request at a
+// time, and responses arrive on a long-lived back-channel GET that is reopened whenever the server
+// ends it. Every server array carries an id that is acknowledged through `AID`.
+class FetchWebChannel implements WebChannelListener {
+	private readonly options: WebChannelOptions;
+	private readonly url: string;
+	private readonly fetchImpl: FetchLike;
+	private readonly abortController = new AbortController();
+	private sessionId: string | null = null;
+	private httpSessionId: string | null = null;
+	private lastArrayId = -1;
+	private nextRequestId = Math.floor(Math.random() * 100_000);
+	private nextMessageId = 0;
+	private queue: QueuedMessage[] = [];
+	private forwardInFlight = false;
+	private closed = false;
+
+	constructor(options: WebChannelOptions) {
+		this.options = options;
+		this.url = `${options.baseUrl.replace(/\/+$/g, '')}/${options.rpcPath}/${options.methodName}/channel`;
+		this.fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+	}
+
+	open(): void {
+		// Deferred so that messages sent right after opening ride along with the handshake.
+		queueMicrotask(() => {
+			this.handshake().catch((error: unknown) => {
+				this.fail(error);
+			});
+		});
+	}
+
+	send(message: unknown): void {
+		if (this.closed) {
+			return;
+		}
+		this.queue.push({ id: this.nextMessageId, message });
+		this.nextMessageId += 1;
+		this.flush();
+	}
+
+	close(): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.abortController.abort();
+		if (this.sessionId === null) {
+			return;
+		}
+		const url = this.buildUrl({
+			SID: this.sessionId,
+			RID: this.takeRequestId(),
+			TYPE: 'terminate'
+		});
+		this.fetchImpl(url, { method: 'GET' })
+			.then((resp) => resp.body?.cancel())
+			.catch(() => undefined);
+	}
+
+	private async handshake(): Promise<void> {
+		this.forwardInFlight = true;
+		const resp = await this.post(
+			{
+				RID: this.takeRequestId(),
+				CVER: CLIENT_VERSION,
+				'X-HTTP-Session-Id': 'gsessionid',
+				$httpHeaders: encodeHeaders(this.options.initMessageHeaders)
+			},
+			this.takeQueue()
+		);
+		this.httpSessionId = resp.headers.get('X-HTTP-Session-Id');
+		if (resp.body) {
+			for await (const chunk of readChunks(resp.body)) {
+				this.handleChunk(chunk);
 			}
+		}
+		if (this.closed) {
 			return;
 		}
-		if (data !== undefined) {
-			options.onMessage(data);
+		if (this.sessionId === null) {
+			throw new Error('[webchannel] Handshake response did not include a session id.');
 		}
-	});
+		this.forwardInFlight = false;
+		this.runBackChannel().catch((error: unknown) => {
+			this.fail(error);
+		});
+		this.flush();
+	}
 
-	channel.listen(WebChannel.EventType.ERROR, (event) => {
-		const name =
-			event && typeof event === 'object' && 'name' in event
-				? String((event as { name: unknown }).name)
-				: 'error';
-		const message =
-			event && typeof event === 'object' && 'message' in event
-				? String((event as { message: unknown }).message)
-				: 'WebChannel error';
-		options.onError(new Error(`[webchannel] ${name}: ${message}`));
-	});
+	private flush(): void {
+		if (this.closed || this.sessionId === null || this.forwardInFlight || !this.queue.length) {
+			return;
+		}
+		this.forwardInFlight = true;
+		this.post(
+			{ SID: this.sessionId, RID: this.takeRequestId(), AID: String(this.lastArrayId) },
+			this.takeQueue()
+		)
+			.then(async (resp) => {
+				await resp.body?.cancel();
+				this.forwardInFlight = false;
+				this.flush();
+			})
+			.catch((error: unknown) => {
+				this.fail(error);
+			});
+	}
 
-	channel.listen(WebChannel.EventType.CLOSE, () => {
-		options.onClose();
-	});
+	private async runBackChannel(): Promise<void> {
+		while (!this.closed && this.sessionId !== null) {
+			const resp = await this.request(
+				this.buildUrl({
+					SID: this.sessionId,
+					RID: 'rpc',
+					AID: String(this.lastArrayId),
+					CI: '0',
+					TYPE: 'xmlhttp'
+				}),
+				{ method: 'GET' }
+			);
+			if (!resp.body) {
+				throw new Error('[webchannel] Back channel returned an empty response body.');
+			}
+			for await (const chunk of readChunks(resp.body)) {
+				this.handleChunk(chunk);
+			}
+		}
+	}
 
-	channel.open();
+	private handleChunk(chunk: unknown): void {
+		if (!Array.isArray(chunk)) {
+			throw new Error('[webchannel] Unexpected response chunk.');
+		}
+		for (const entry of chunk) {
+			if (this.closed) {
+				return;
+			}
+			if (!Array.isArray(entry) || typeof entry[0] !== 'number') {
+				throw new Error('[webchannel] Unexpected response chunk.');
+			}
+			const [arrayId, payload] = entry as [number, unknown];
+			if (arrayId <= this.lastArrayId) {
+				continue;
+			}
+			this.lastArrayId = arrayId;
+			this.handlePayload(payload);
+		}
+	}
+
+	private handlePayload(payload: unknown): void {
+		if (!Array.isArray(payload)) {
+			if (payload !== undefined) {
+				this.deliver(payload);
+			}
+			return;
+		}
+		const [kind] = payload as unknown[];
+		if (this.sessionId === null) {
+			if (kind !== 'c' || typeof payload[1] !== 'string') {
+				throw new Error('[webchannel] Handshake response did not include a session id.');
+			}
+			this.sessionId = payload[1];
+			return;
+		}
+		if (kind === 'noop') {
+			return;
+		}
+		if (kind === 'stop') {
+			throw new Error('[webchannel] stop: The server stopped the channel.');
+		}
+		if (kind === 'close') {
+			this.closed = true;
+			this.abortController.abort();
+			this.options.onClose();
+			return;
+		}
+		for (const message of payload) {
+			this.deliver(message);
+		}
+	}
+
+	private deliver(message: unknown): void {
+		try {
+			this.options.onMessage(message);
+		} catch (error) {
+			// A throwing handler (e.g. a snapshot listener) is not a transport failure: rethrow it outside
+			// the read loop so the session stays up.
+			queueMicrotask(() => {
+				throw error;
+			});
+		}
+	}
 
-	return {
-		close() {
-			channel.close();
-		},
-		send(message: unknown) {
-			channel.send(message);
+	private async post(params: Record<string, string>, batch: QueuedMessage[]): Promise<Response> {
+		const fields = [`count=${String(batch.length)}`];
+		const offset = batch[0]?.id ?? 0;
+		if (batch.length) {
+			fields.push(`ofs=${String(offset)}`);
+		}
+		for (const { id, message } of batch) {
+			fields.push(
+				`req${String(id - offset)}___data__=${encodeURIComponent(JSON.stringify(message))}`
+			);
+		}
+		return this.request(this.buildUrl(params), {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+			body: fields.join('&')
+		});
+	}
+
+	private async request(url: string, init: RequestInit): Promise<Response> {
+		const resp = await this.fetchImpl(url, { ...init, signal: this.abortController.signal });
+		if (!resp.ok) {
+			const text = await resp.text().catch(() => '');
+			throw new FirestoreError(
+				`[webchannel] HTTP ${String(resp.status)}: ${text.trim() || resp.statusText || 'request failed'}`,
+				{
+					apiStatus: HTTP_FAILURE_STATUSES[resp.status] ?? 'UNAVAILABLE',
+					httpStatus: resp.status,
+					method: this.options.methodName
+				}
+			);
+		}
+		return resp;
+	}
+
+	private buildUrl(params: Record<string, string>): string {
+		const search = new URLSearchParams({ database: this.options.database, VER: PROTOCOL_VERSION });
+		if (this.httpSessionId !== null) {
+			search.set('gsessionid', this.httpSessionId);
+		}
+		for (const [name, value] of Object.entries(params)) {
+			search.set(name, value);
 		}
-	};
+		search.set('zx', randomParam());
+		search.set('t', '1');
+		return `${this.url}?${search.toString()}`;
+	}
+
+	private takeRequestId(): string {
+		const id = this.nextRequestId;
+		this.nextRequestId += 1;
+		return String(id);
+	}
+
+	private takeQueue(): QueuedMessage[] {
+		const batch = this.queue;
+		this.queue = [];
+		return batch;
+	}
+
+	private fail(error: unknown): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.abortController.abort();
+		// Transport failures are transient; the caller reconnects with a fresh session.
+		this.options.onError(
+			error instanceof FirestoreError
+				? error
+				: new FirestoreError(
+						error instanceof Error ? error.message : `[webchannel] error: ${String(error)}`,
+						{ apiStatus: 'UNAVAILABLE', method: this.options.methodName }
+					)
+		);
+	}
+}
+
+export function openWebChannel(options: WebChannelOptions): WebChannelListener {
+	const channel = new FetchWebChannel(options);
+	channel.open();
+	return channel;
 }
@@ -1,4 +1,11 @@
-import type { DocumentData, SetOptions, TransactionOptions } from './firestore.js';
+import type {
+	DocumentData,
+	PartialWithFieldValue,
+	SetOptions,
+	TransactionOptions,
+	VectorQuery,
+	WithFieldValue
+} from './firestore.js';
 import {
 	AggregateField,
 	AggregateQuerySnapshot,
@@ -14,15 +21,16 @@ import {
 import { FieldPath } from './field-path.js';
 import { Filter } from './filter.js';
 import { FieldValue } from './field-value.js';
+import type { VectorValue } from './vector-value.js';
 import type { OrderDirection, WhereOp } from './rest/query-encoding.js';
 
 export type Unsubscribe = () => void;
 
-export type QueryConstraint<T extends DocumentData = DocumentData> = {
+export type QueryConstraint<T = DocumentData> = {
 	_apply(query: Query<T>): Query<T>;
 };
 
-export type QueryFilterConstraint<T extends DocumentData = DocumentData> = QueryConstraint<T> & {
+export type QueryFilterConstraint<T = DocumentData> = QueryConstraint<T> & {
 	_asFilter(): Filter;
 };
 
@@ -30,7 +38,7 @@ function joinSegments(segments: readonly string[]): string {
 	return segments.filter((s) => s.length > 0).join('/');
 }
 
-export function doc<T extends DocumentData = DocumentData>(
+export function doc<T = DocumentData>(
 	parent: Firestore | CollectionReference<T> | DocumentReference<T>,
 	...pathSegments: string[]
 ): DocumentReference<T> {
@@ -38,14 +46,13 @@ export function doc<T extends DocumentData = DocumentData>(
 		return parent.doc<T>(joinSegments(pathSegments));
 	}
 	if (parent instanceof CollectionReference) {
-		const suffix = joinSegments(pathSegments);
-		return parent.firestore.doc<T>(`${parent.path}/${suffix}`);
+		return parent.doc(joinSegments(pathSegments));
 	}
 	const suffix = joinSegments(pathSegments);
 	return parent.firestore.doc<T>(`${parent.path}/${suffix}`);
 }
 
-export function collection<T extends DocumentData = DocumentData>(
+export function collection<T = DocumentData>(
 	parent: Firestore | DocumentReference<T> | CollectionReference<T>,
 	...pathSegments: string[]
 ): CollectionReference<T> {
@@ -56,57 +63,66 @@ export function collection<T extends DocumentData = DocumentData>(
 	return parent.firestore.collection<T>(`${parent.path}/${suffix}`);
 }
 
-export async function getDoc<T extends DocumentData = DocumentData>(
+export async function getDoc<T = DocumentData>(
 	ref: DocumentReference<T>
 ): Promise<DocumentSnapshot<T>> {
 	return await ref.get();
 }
 
-export async function getDocs<T extends DocumentData = DocumentData>(
-	query: Query<T>
+export async function getDocs<T = DocumentData>(
+	query: Query<T> | VectorQuery<T>
 ): Promise<QuerySnapshot<T>> {
 	return await query.get();
 }
 
-export async function getCountFromServer<T extends DocumentData = DocumentData>(
+export async function getCountFromServer<T = DocumentData>(
 	query: Query<T>
 ): Promise<AggregateQuerySnapshot> {
 	return await query.count().get();
 }
 
-export async function getAggregateFromServer<T extends DocumentData = DocumentData>(
+export async function getAggregateFromServer<T = DocumentData>(
 	query: Query<T>,
 	aggregations: Record<string, AggregateField>
 ): Promise<AggregateQuerySnapshot> {
 	return await query.aggregate(aggregations).get();
 }
 
-export async function setDoc<T extends DocumentData = DocumentData>(
+export async function setDoc<T = DocumentData>(
+	ref: DocumentReference<T>,
+	data: WithFieldValue<T>
+): Promise<void>;
+export async function setDoc<T = DocumentData>(
 	ref: DocumentReference<T>,
-	data: T,
+	data: PartialWithFieldValue<T>,
+	options: SetOptions
+): Promise<void>;
+export async function setDoc<T = DocumentData>(
+	ref: DocumentReference<T>,
+	data: WithFieldValue<T> | PartialWithFieldValue<T>,
 	options: SetOptions = {}
 ): Promise<void> {
 	await ref.set(data, options);
 }
 
-export async function addDoc<T extends DocumentData = DocumentData>(
+export async function addDoc<T = DocumentData>(
 	ref: CollectionReference<T>,
-	data: T
+	data: WithFieldValue<T>
 ): Promise<DocumentReference<T>> {
 	return await ref.add(data);
 }
 
-export async function updateDoc<T extends DocumentData = DocumentData>(
+export async function updateDoc<T = DocumentData>(
 	ref: DocumentReference<T>,
 	data: Record<string, unknown>
 ): Promise<void>;
-export async function updateDoc<T extends DocumentData = DocumentData>(
+export async function updateDoc<T = DocumentData>(
 	ref: DocumentReference<T>,
 	field: string | FieldPath,
 	value: unknown,
 	...moreFieldsAndValues: unknown[]
 ): Promise<void>;
-export async function updateDoc<T extends DocumentData = DocumentData>(
+export async function updateDoc<T = DocumentData>(
 	ref: DocumentReference<T>,
 	dataOrField: Record<string, unknown> | string | FieldPath,
 	value?: unknown,
@@ -119,9 +135,7 @@ export async function updateDoc<T extends DocumentData = DocumentData>(
 	await ref.update(dataOrField);
 }
 
-export async function deleteDoc<T extends DocumentData = DocumentData>(
-	ref: DocumentReference<T>
-): Promise<void> {
+export async function deleteDoc<T = DocumentData>(ref: DocumentReference<T>): Promise<void> {
 	await ref.delete();
 }
 
@@ -137,14 +151,14 @@ export async function runTransaction<T>(
 	return await firestore.runTransaction(updateFn, options);
 }
 
-export function query<T extends DocumentData = DocumentData>(
+export function query<T = DocumentData>(
 	base: Query<T>,
 	...constraints: Array<QueryConstraint<T>>
 ): Query<T> {
 	return constraints.reduce((acc, constraint) => constraint._apply(acc), base);
 }
 
-export function where<T extends DocumentData = DocumentData>(
+export function where<T = DocumentData>(
 	fieldPath: string | FieldPath,
 	op: WhereOp,
 	value: unknown
@@ -159,7 +173,7 @@ export function where<T extends DocumentData = DocumentData>(
 	};
 }
 
-export function or<T extends DocumentData = DocumentData>(
+export function or<T = DocumentData>(
 	...filters: Array<QueryFilterConstraint<T>>
 ): QueryFilterConstraint<T> {
 	return {
@@ -174,7 +188,7 @@ export function or<T extends DocumentData = DocumentData>(
 	};
 }
 
-export function and<T extends DocumentData = DocumentData>(
+export function and<T = DocumentData>(
 	...filters: Array<QueryFilterConstraint<T>>
 ): QueryFilterConstraint<T> {
 	return {
@@ -189,7 +203,7 @@ export function and<T extends DocumentData = DocumentData>(
 	};
 }
 
-export function orderBy<T extends DocumentData = DocumentData>(
+export function orderBy<T = DocumentData>(
 	fieldPath: string | FieldPath,
 	direction: OrderDirection = 'asc'
 ): QueryConstraint<T> {
@@ -200,7 +214,7 @@ export function orderBy<T extends DocumentData = DocumentData>(
 	};
 }
 
-export function limit<T extends DocumentData = DocumentData>(n: number): QueryConstraint<T> {
+export function limit<T = DocumentData>(n: number): QueryConstraint<T> {
 	return {
 		_apply(q) {
 			return q.limit(n);
@@ -208,7 +222,7 @@ export function limit<T extends DocumentData = DocumentData>(n: number): QueryCo
 	};
 }
 
-export function limitToLast<T extends DocumentData = DocumentData>(n: number): QueryConstraint<T> {
+export function limitToLast<T = DocumentData>(n: number): QueryConstraint<T> {
 	return {
 		_apply(q) {
 			return q.limitToLast(n);
@@ -216,15 +230,9 @@ export function limitToLast<T extends DocumentData = DocumentData>(n: number): Q
 	};
 }
 
-export function startAt<T extends DocumentData = DocumentData>(
-	snapshot: DocumentSnapshot<T>
-): QueryConstraint<T>;
-export function startAt<T extends DocumentData = DocumentData>(
-	...fieldValues: unknown[]
-): QueryConstraint<T>;
-export function startAt<T extends DocumentData = DocumentData>(
-	...args: unknown[]
-): QueryConstraint<T> {
+export function startAt<T = DocumentData>(snapshot: DocumentSnapshot<T>): QueryConstraint<T>;
+export function startAt<T = DocumentData>(...fieldValues: unknown[]): QueryConstraint<T>;
+export function startAt<T = DocumentData>(...args: unknown[]): QueryConstraint<T> {
 	return {
 		_apply(q) {
 			return q.startAt(...(args as [unknown, ...unknown[]]));
@@ -232,15 +240,9 @@ export function startAt<T extends DocumentData = DocumentData>(
 	};
 }
 
-export function startAfter<T extends DocumentData = DocumentData>(
-	snapshot: DocumentSnapshot<T>
-): QueryConstraint<T>;
-export function startAfter<T extends DocumentData = DocumentData>(
-	...fieldValues: unknown[]
-): QueryConstraint<T>;
-export function startAfter<T extends DocumentData = DocumentData>(
-	...args: unknown[]
-): QueryConstraint<T> {
+export function startAfter<T = DocumentData>(snapshot: DocumentSnapshot<T>): QueryConstraint<T>;
+export function startAfter<T = DocumentData>(...fieldValues: unknown[]): QueryConstraint<T>;
+export function startAfter<T = DocumentData>(...args: unknown[]): QueryConstraint<T> {
 	return {
 		_apply(q) {
 			return q.startAfter(...(args as [unknown, ...unknown[]]));
@@ -248,15 +250,9 @@ export function startAfter<T extends DocumentData = DocumentData>(
 	};
 }
 
-export function endAt<T extends DocumentData = DocumentData>(
-	snapshot: DocumentSnapshot<T>
-): QueryConstraint<T>;
-export function endAt<T extends DocumentData = DocumentData>(
-	...fieldValues: unknown[]
-): QueryConstraint<T>;
-export function endAt<T extends DocumentData = DocumentData>(
-	...args: unknown[]
-): QueryConstraint<T> {
+export function endAt<T = DocumentData>(snapshot: DocumentSnapshot<T>): QueryConstraint<T>;
+export function endAt<T = DocumentData>(...fieldValues: unknown[]): QueryConstraint<T>;
+export function endAt<T = DocumentData>(...args: unknown[]): QueryConstraint<T> {
 	return {
 		_apply(q) {
 			return q.endAt(...(args as [unknown, ...unknown[]]));
@@ -264,15 +260,9 @@ export function endAt<T extends DocumentData = DocumentData>(
 	};
 }
 
-export function endBefore<T extends DocumentData = DocumentData>(
-	snapshot: DocumentSnapshot<T>
-): QueryConstraint<T>;
-export function endBefore<T extends DocumentData = DocumentData>(
-	...fieldValues: unknown[]
-): QueryConstraint<T>;
-export function endBefore<T extends DocumentData = DocumentData>(
-	...args: unknown[]
-): QueryConstraint<T> {
+export function endBefore<T = DocumentData>(snapshot: DocumentSnapshot<T>): QueryConstraint<T>;
+export function endBefore<T = DocumentData>(...fieldValues: unknown[]): QueryConstraint<T>;
+export function endBefore<T = DocumentData>(...args: unknown[]): QueryConstraint<T> {
 	return {
 		_apply(q) {
 			return q.endBefore(...(args as [unknown, ...unknown[]]));
@@ -316,17 +306,21 @@ export function increment(n: number): FieldValue {
 	return FieldValue.increment(n);
 }
 
-export function onSnapshot<T extends DocumentData = DocumentData>(
+export function vector(values?: number[]): VectorValue {
+	return FieldValue.vector(values);
+}
+
+export function onSnapshot<T = DocumentData>(
 	ref: DocumentReference<T>,
 	onNext: (snapshot: DocumentSnapshot<T>) => void,
 	onError?: (error: unknown) => void
 ): Unsubscribe;
-export function onSnapshot<T extends DocumentData = DocumentData>(
+export function onSnapshot<T = DocumentData>(
 	query: Query<T>,
 	onNext: (snapshot: QuerySnapshot<T>) => void,
 	onError?: (error: unknown) => void
 ): Unsubscribe;
-export function onSnapshot<T extends DocumentData = DocumentData>(
+export function onSnapshot<T = DocumentData>(
 	refOrQuery: DocumentReference<T> | Query<T>,
 	onNext: ((snapshot: DocumentSnapshot<T>) => void) | ((snapshot: QuerySnapshot<T>) => void),
 	onError?: (error: unknown) => void
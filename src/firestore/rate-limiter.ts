@@ -0,0 +1,89 @@
+export const DEFAULT_INITIAL_OPS_PER_SECOND = 500;
+export const DEFAULT_MAXIMUM_OPS_PER_SECOND = 10_000;
+
+const DEFAULT_MULTIPLIER = 1.5;
+const DEFAULT_MULTIPLIER_MILLIS = 5 * 60 * 1000;
+
+export type RateLimiterOptions = {
+	initialCapacity: number;
+	maximumCapacity: number;
+	multiplier?: number;
+	multiplierMillis?: number;
+	now?: () => number;
+};
+
+// Token bucket implementing the 500/50/5 ramp-up rule: start at `initialCapacity` operations per
+// second and grow by `multiplier` every `multiplierMillis`, up to `maximumCapacity`. The ramp-up
+// starts with the first request, so an idle limiter doesn't build up capacity.
+export class RateLimiter {
+	private readonly initialCapacity: number;
+	private readonly maximumCapacity: number;
+	private readonly multiplier: number;
+	private readonly multiplierMillis: number;
+	private readonly now: () => number;
+	private startTimeMillis: number | null = null;
+	private lastRefillTimeMillis = 0;
+	private availableTokens: number;
+
+	constructor(options: RateLimiterOptions) {
+		this.initialCapacity = options.initialCapacity;
+		this.maximumCapacity = options.maximumCapacity;
+		this.multiplier = options.multiplier ?? DEFAULT_MULTIPLIER;
+		this.multiplierMillis = options.multiplierMillis ?? DEFAULT_MULTIPLIER_MILLIS;
+		this.now = options.now ?? Date.now;
+		this.availableTokens = options.initialCapacity;
+	}
+
+	tryMakeRequest(numOperations: number): boolean {
+		this.refillTokens(this.now());
+		if (numOperations > this.availableTokens) {
+			return false;
+		}
+		this.availableTokens -= numOperations;
+		return true;
+	}
+
+	// Returns how long to wait before `numOperations` tokens are available, or -1 when the
+	// request can never be satisfied at the current capacity.
+	getNextRequestDelayMs(numOperations: number): number {
+		const requestTimeMillis = this.now();
+		this.refillTokens(requestTimeMillis);
+		if (numOperations <= this.availableTokens) {
+			return 0;
+		}
+		const capacity = this.calculateCapacity(requestTimeMillis);
+		if (capacity < numOperations) {
+			return -1;
+		}
+		const requiredTokens = numOperations - this.availableTokens;
+		return Math.ceil((requiredTokens * 1000) / capacity);
+	}
+
+	calculateCapacity(requestTimeMillis = this.now()): number {
+		if (this.startTimeMillis === null) {
+			return Math.min(this.initialCapacity, this.maximumCapacity);
+		}
+		const elapsedMillis = Math.max(0, requestTimeMillis - this.startTimeMillis);
+		const steps = Math.floor(elapsedMillis / this.multiplierMillis);
+		const capacity = Math.floor(this.multiplier ** steps * this.initialCapacity);
+		return Math.min(capacity, this.maximumCapacity);
+	}
+
+	private refillTokens(requestTimeMillis: number): void {
+		if (this.startTimeMillis === null) {
+			this.startTimeMillis = requestTimeMillis;
+			this.lastRefillTimeMillis = requestTimeMillis;
+			return;
+		}
+		const elapsedMillis = requestTimeMillis - this.lastRefillTimeMillis;
+		if (elapsedMillis <= 0) {
+			return;
+		}
+		const capacity = this.calculateCapacity(requestTimeMillis);
+		const tokensToAdd = Math.floor((elapsedMillis * capacity) / 1000);
+		if (tokensToAdd > 0) {
+			this.availableTokens = Math.min(capacity, this.availableTokens + tokensToAdd);
+			this.lastRefillTimeMillis = requestTimeMillis;
+		}
+	}
+}
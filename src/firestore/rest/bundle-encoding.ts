@@ -0,0 +1,77 @@
+import type { FirestoreDocument } from './types.js';
+
+export type BundledQuery = {
+	parent: string;
+	structuredQuery: unknown;
+	limitType: 'FIRST' | 'LAST';
+};
+
+export type NamedQuery = {
+	name: string;
+	bundledQuery: BundledQuery;
+	readTime: string;
+};
+
+export type BundledDocumentMetadata = {
+	name: string;
+	readTime: string;
+	exists: boolean;
+	queries: string[];
+};
+
+export type BundledDocument = {
+	metadata: BundledDocumentMetadata;
+	document: FirestoreDocument | null;
+};
+
+const encoder = new TextEncoder();
+
+function encodeElement(element: unknown): Uint8Array {
+	const json = encoder.encode(JSON.stringify(element));
+	const prefix = encoder.encode(String(json.length));
+	const out = new Uint8Array(prefix.length + json.length);
+	out.set(prefix, 0);
+	out.set(json, prefix.length);
+	return out;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+	const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+	const out = new Uint8Array(total);
+	let offset = 0;
+	for (const chunk of chunks) {
+		out.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return out;
+}
+
+export function encodeBundle(options: {
+	bundleId: string;
+	createTime: string;
+	namedQueries: NamedQuery[];
+	documents: BundledDocument[];
+}): Uint8Array {
+	const elements: Uint8Array[] = [];
+	for (const namedQuery of options.namedQueries) {
+		elements.push(encodeElement({ namedQuery }));
+	}
+	for (const entry of options.documents) {
+		elements.push(encodeElement({ documentMetadata: entry.metadata }));
+		if (entry.metadata.exists && entry.document) {
+			elements.push(encodeElement({ document: entry.document }));
+		}
+	}
+
+	const body = concatBytes(elements);
+	const metadata = encodeElement({
+		metadata: {
+			id: options.bundleId,
+			createTime: options.createTime,
+			version: 1,
+			totalDocuments: options.documents.length,
+			totalBytes: body.length
+		}
+	});
+	return concatBytes([metadata, body]);
+}
@@ -21,31 +21,32 @@ import {
 	RunAggregationQueryResponseSchema,
 	RunQueryResponseSchema
 } from './types.js';
+import { parseJsonArrayStream } from './json-stream.js';
+import { FirestoreError } from '../errors.js';
+
+export { FirestoreApiError } from '../errors.js';
 
 export type FetchLike = typeof fetch;
 
+type RunQueryOptions = {
+	parentResourceName: string;
+	structuredQuery: unknown;
+	transaction?: string;
+	readTime?: string;
+	explainOptions?: { analyze: boolean };
+};
+
 const GoogleApiErrorSchema = z.object({
 	error: z
 		.object({
 			code: z.number().optional(),
 			message: z.string().optional(),
-			status: z.string().optional()
+			status: z.string().optional(),
+			details: z.array(z.unknown()).optional()
 		})
 		.optional()
 });
 
-export class FirestoreApiError extends Error {
-	readonly httpStatus: number;
-	readonly apiStatus: string | null;
-
-	constructor(message: string, options: { httpStatus: number; apiStatus?: string | null }) {
-		super(message);
-		this.name = 'FirestoreApiError';
-		this.httpStatus = options.httpStatus;
-		this.apiStatus = options.apiStatus ?? null;
-	}
-}
-
 function splitPathSegments(path: string): string[] {
 	return path.split('/').filter((segment) => segment.length > 0);
 }
@@ -119,6 +120,10 @@ export class FirestoreRestClient {
 		return `${this.baseUrl}/v1/${this.databaseResourceName()}/documents:beginTransaction`;
 	}
 
+	rollbackUrl(): string {
+		return `${this.baseUrl}/v1/${this.databaseResourceName()}/documents:rollback`;
+	}
+
 	commitUrl(): string {
 		return `${this.baseUrl}/v1/${this.databaseResourceName()}/documents:commit`;
 	}
@@ -149,18 +154,30 @@ export class FirestoreRestClient {
 	async getDocument(options: {
 		documentPath: string;
 		transaction?: string;
+		readTime?: string;
+		mask?: string[];
 	}): Promise<FirestoreDocument | null> {
 		const url = new URL(this.documentUrl(options.documentPath));
 		if (options.transaction) {
 			url.searchParams.set('transaction', options.transaction);
 		}
+		if (options.readTime) {
+			url.searchParams.set('readTime', options.readTime);
+		}
+		if (options.mask) {
+			// As in `listDocuments`, `__name__` stands in for an empty mask so no fields are returned.
+			const fieldPaths = options.mask.length > 0 ? options.mask : ['__name__'];
+			for (const fieldPath of fieldPaths) {
+				url.searchParams.append('mask.fieldPaths', fieldPath);
+			}
+		}
 
 		const resp = await this.authedFetch(url.toString(), { method: 'GET' });
 		if (resp.status === 404) {
 			return null;
 		}
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore GET failed');
+			throw await this.toError(resp, 'getDocument', 'Firestore GET failed');
 		}
 		const json = await resp.json();
 		return FirestoreDocumentSchema.parse(json);
@@ -169,13 +186,21 @@ export class FirestoreRestClient {
 	async batchGetDocuments(options: {
 		documentNames: string[];
 		transaction?: string;
+		readTime?: string;
+		mask?: string[];
 	}): Promise<BatchGetDocumentsResponse[]> {
 		const body: Record<string, unknown> = {
 			documents: options.documentNames
 		};
+		if (options.mask) {
+			body.mask = { fieldPaths: options.mask };
+		}
 		if (options.transaction) {
 			body.transaction = options.transaction;
 		}
+		if (options.readTime) {
+			body.readTime = options.readTime;
+		}
 
 		const resp = await this.authedFetch(this.batchGetDocumentsUrl(), {
 			method: 'POST',
@@ -183,13 +208,16 @@ export class FirestoreRestClient {
 			body: JSON.stringify(body)
 		});
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore batchGetDocuments failed');
+			throw await this.toError(resp, 'batchGetDocuments');
 		}
 
 		const json = await resp.json();
 		const parsed = z.array(BatchGetDocumentsResponseSchema).safeParse(json);
 		if (!parsed.success) {
-			throw new Error('Firestore batchGetDocuments returned an invalid JSON payload.');
+			throw new FirestoreError('Firestore batchGetDocuments returned an invalid JSON payload.', {
+				apiStatus: 'INTERNAL',
+				method: 'batchGetDocuments'
+			});
 		}
 		return parsed.data;
 	}
@@ -202,43 +230,79 @@ export class FirestoreRestClient {
 			return;
 		}
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore DELETE failed');
+			throw await this.toError(resp, 'deleteDocument', 'Firestore DELETE failed');
 		}
 	}
 
-	async runQuery(options: {
-		parentResourceName: string;
-		structuredQuery: unknown;
-		transaction?: string;
-	}): Promise<RunQueryResponse[]> {
+	async runQuery(options: RunQueryOptions): Promise<RunQueryResponse[]> {
+		const resp = await this.fetchRunQuery(options);
+		const json = await resp.json();
+		const parsed = z.array(RunQueryResponseSchema).safeParse(json);
+		if (!parsed.success) {
+			throw new FirestoreError('Firestore runQuery returned an invalid JSON payload.', {
+				apiStatus: 'INTERNAL',
+				method: 'runQuery'
+			});
+		}
+		return parsed.data;
+	}
+
+	async *runQueryStream(
+		options: RunQueryOptions & { signal?: AbortSignal }
+	): AsyncGenerator<RunQueryResponse> {
+		const resp = await this.fetchRunQuery(options);
+		if (!resp.body) {
+			throw new FirestoreError('Firestore runQuery returned an empty response body.', {
+				apiStatus: 'INTERNAL',
+				method: 'runQuery'
+			});
+		}
+		for await (const element of parseJsonArrayStream(resp.body)) {
+			const parsed = RunQueryResponseSchema.safeParse(element);
+			if (!parsed.success) {
+				throw new FirestoreError('Firestore runQuery returned an invalid JSON payload.', {
+					apiStatus: 'INTERNAL',
+					method: 'runQuery'
+				});
+			}
+			yield parsed.data;
+		}
+	}
+
+	private async fetchRunQuery(
+		options: RunQueryOptions & { signal?: AbortSignal }
+	): Promise<Response> {
 		const body: Record<string, unknown> = {
 			structuredQuery: options.structuredQuery
 		};
 		if (options.transaction) {
 			body.transaction = options.transaction;
 		}
+		if (options.readTime) {
+			body.readTime = options.readTime;
+		}
+		if (options.explainOptions) {
+			body.explainOptions = options.explainOptions;
+		}
 
 		const resp = await this.authedFetch(this.runQueryUrl(options.parentResourceName), {
 			method: 'POST',
 			headers: { 'content-type': 'application/json' },
-			body: JSON.stringify(body)
+			body: JSON.stringify(body),
+			signal: options.signal
 		});
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore runQuery failed');
-		}
-
-		const json = await resp.json();
-		const parsed = z.array(RunQueryResponseSchema).safeParse(json);
-		if (!parsed.success) {
-			throw new Error('Firestore runQuery returned an invalid JSON payload.');
+			throw await this.toError(resp, 'runQuery');
 		}
-		return parsed.data;
+		return resp;
 	}
 
 	async runAggregationQuery(options: {
 		parentResourceName: string;
 		structuredAggregationQuery: unknown;
 		transaction?: string;
+		readTime?: string;
+		explainOptions?: { analyze: boolean };
 	}): Promise<RunAggregationQueryResponse[]> {
 		const body: Record<string, unknown> = {
 			structuredAggregationQuery: options.structuredAggregationQuery
@@ -246,6 +310,12 @@ export class FirestoreRestClient {
 		if (options.transaction) {
 			body.transaction = options.transaction;
 		}
+		if (options.readTime) {
+			body.readTime = options.readTime;
+		}
+		if (options.explainOptions) {
+			body.explainOptions = options.explainOptions;
+		}
 
 		const resp = await this.authedFetch(this.runAggregationQueryUrl(options.parentResourceName), {
 			method: 'POST',
@@ -253,30 +323,56 @@ export class FirestoreRestClient {
 			body: JSON.stringify(body)
 		});
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore runAggregationQuery failed');
+			throw await this.toError(resp, 'runAggregationQuery');
 		}
 
 		const json = await resp.json();
 		const parsed = z.array(RunAggregationQueryResponseSchema).safeParse(json);
 		if (!parsed.success) {
-			throw new Error('Firestore runAggregationQuery returned an invalid JSON payload.');
+			throw new FirestoreError('Firestore runAggregationQuery returned an invalid JSON payload.', {
+				apiStatus: 'INTERNAL',
+				method: 'runAggregationQuery'
+			});
 		}
 		return parsed.data;
 	}
 
-	async beginTransaction(): Promise<string> {
+	async beginTransaction(
+		options: {
+			readOnly?: { readTime?: string };
+			readWrite?: { retryTransaction?: string };
+		} = {}
+	): Promise<string> {
+		const body: Record<string, unknown> = {};
+		if (options.readOnly) {
+			body.options = { readOnly: options.readOnly };
+		} else if (options.readWrite) {
+			body.options = { readWrite: options.readWrite };
+		}
+
 		const resp = await this.authedFetch(this.beginTransactionUrl(), {
 			method: 'POST',
 			headers: { 'content-type': 'application/json' },
-			body: JSON.stringify({})
+			body: JSON.stringify(body)
 		});
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore beginTransaction failed');
+			throw await this.toError(resp, 'beginTransaction');
 		}
 		const json = await resp.json();
 		return BeginTransactionResponseSchema.parse(json).transaction;
 	}
 
+	async rollback(options: { transaction: string }): Promise<void> {
+		const resp = await this.authedFetch(this.rollbackUrl(), {
+			method: 'POST',
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ transaction: options.transaction })
+		});
+		if (!resp.ok) {
+			throw await this.toError(resp, 'rollback');
+		}
+	}
+
 	async commit(options: { writes: unknown[]; transaction?: string }): Promise<CommitResponse> {
 		const body: Record<string, unknown> = {
 			writes: options.writes
@@ -291,7 +387,7 @@ export class FirestoreRestClient {
 			body: JSON.stringify(body)
 		});
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore commit failed');
+			throw await this.toError(resp, 'commit');
 		}
 
 		const json = await resp.json();
@@ -309,7 +405,7 @@ export class FirestoreRestClient {
 			body: JSON.stringify(body)
 		});
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore batchWrite failed');
+			throw await this.toError(resp, 'batchWrite');
 		}
 
 		const json = await resp.json();
@@ -320,6 +416,9 @@ export class FirestoreRestClient {
 		collectionPath: string;
 		pageSize?: number;
 		pageToken?: string;
+		readTime?: string;
+		showMissing?: boolean;
+		mask?: string[];
 	}): Promise<{ documents: FirestoreDocument[]; nextPageToken: string | null }> {
 		const url = new URL(this.listDocumentsUrl(options.collectionPath));
 		if (options.pageSize !== undefined) {
@@ -328,10 +427,23 @@ export class FirestoreRestClient {
 		if (options.pageToken) {
 			url.searchParams.set('pageToken', options.pageToken);
 		}
+		if (options.readTime) {
+			url.searchParams.set('readTime', options.readTime);
+		}
+		if (options.showMissing) {
+			url.searchParams.set('showMissing', 'true');
+		}
+		if (options.mask) {
+			// An empty DocumentMask can't be written as query parameters; `__name__` selects no fields.
+			const fieldPaths = options.mask.length > 0 ? options.mask : ['__name__'];
+			for (const fieldPath of fieldPaths) {
+				url.searchParams.append('mask.fieldPaths', fieldPath);
+			}
+		}
 
 		const resp = await this.authedFetch(url.toString(), { method: 'GET' });
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore listDocuments failed');
+			throw await this.toError(resp, 'listDocuments');
 		}
 		const json = await resp.json();
 		const parsed = ListDocumentsResponseSchema.parse(json);
@@ -360,7 +472,7 @@ export class FirestoreRestClient {
 			body: JSON.stringify(body)
 		});
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore listCollectionIds failed');
+			throw await this.toError(resp, 'listCollectionIds');
 		}
 		const json = await resp.json();
 		const parsed = ListCollectionIdsResponseSchema.parse(json);
@@ -394,7 +506,7 @@ export class FirestoreRestClient {
 			body: JSON.stringify(body)
 		});
 		if (!resp.ok) {
-			throw await this.toError(resp, 'Firestore partitionQuery failed');
+			throw await this.toError(resp, 'partitionQuery');
 		}
 
 		const json = await resp.json();
@@ -416,25 +528,30 @@ export class FirestoreRestClient {
 		return await this.fetchImpl(input, { ...init, headers });
 	}
 
-	private async toError(resp: Response, prefix: string): Promise<FirestoreApiError> {
+	private async toError(
+		resp: Response,
+		method: string,
+		prefix = `Firestore ${method} failed`
+	): Promise<FirestoreError> {
 		const bodyText = await resp.text().catch(() => '');
-		let apiStatus: string | null = null;
-		let apiMessage: string | null = null;
+		let apiError: z.infer<typeof GoogleApiErrorSchema>['error'];
 
 		try {
 			const parsed = GoogleApiErrorSchema.safeParse(JSON.parse(bodyText));
-			if (parsed.success && parsed.data.error) {
-				apiStatus = parsed.data.error.status ?? null;
-				apiMessage = parsed.data.error.message ?? null;
+			if (parsed.success) {
+				apiError = parsed.data.error;
 			}
 		} catch {
 			// ignore
 		}
 
+		const apiMessage = apiError?.message;
 		const suffix = apiMessage ? `: ${apiMessage}` : bodyText ? `: ${bodyText.slice(0, 500)}` : '';
-		return new FirestoreApiError(`${prefix} (${String(resp.status)})${suffix}`, {
+		return new FirestoreError(`${prefix} (${String(resp.status)})${suffix}`, {
 			httpStatus: resp.status,
-			apiStatus
+			apiStatus: apiError?.status,
+			details: apiError?.details,
+			method
 		});
 	}
 }
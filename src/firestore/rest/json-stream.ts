@@ -0,0 +1,72 @@
+// Incrementally parses a streamed JSON array of objects (such as a `runQuery` response body),
+// yielding each element as soon as its closing brace arrives.
+export async function* parseJsonArrayStream(body: ReadableStream<Uint8Array>): AsyncGenerator {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let scanned = 0;
+	let depth = 0;
+	let inString = false;
+	let escaped = false;
+	let elementStart = -1;
+	let sawArray = false;
+
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+			buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+			for (; scanned < buffer.length; scanned += 1) {
+				const char = buffer[scanned];
+				if (inString) {
+					if (escaped) {
+						escaped = false;
+					} else if (char === '\\') {
+						escaped = true;
+					} else if (char === '"') {
+						inString = false;
+					}
+					continue;
+				}
+				if (char === '"') {
+					inString = true;
+				} else if (char === '{' || char === '[') {
+					if (depth === 0) {
+						if (char !== '[') {
+							throw new Error('Expected a JSON array.');
+						}
+						sawArray = true;
+					} else if (depth === 1) {
+						elementStart = scanned;
+					}
+					depth += 1;
+				} else if (char === '}' || char === ']') {
+					depth -= 1;
+					if (depth === 1 && elementStart >= 0) {
+						const element = buffer.slice(elementStart, scanned + 1);
+						elementStart = -1;
+						yield JSON.parse(element) as unknown;
+					}
+				}
+			}
+
+			const keepFrom = elementStart >= 0 ? elementStart : scanned;
+			buffer = buffer.slice(keepFrom);
+			scanned -= keepFrom;
+			if (elementStart >= 0) {
+				elementStart = 0;
+			}
+
+			if (done) {
+				break;
+			}
+		}
+	} finally {
+		await reader.cancel().catch(() => undefined);
+		reader.releaseLock();
+	}
+
+	if (!sawArray || depth !== 0 || inString) {
+		throw new Error('Unexpected end of JSON array stream.');
+	}
+}
@@ -1,6 +1,7 @@
 import { toFirestoreValue } from './value.js';
 import type { FirestoreValue } from './types.js';
 import type { FilterNode } from '../filter.js';
+import type { VectorValue } from '../vector-value.js';
 
 export type WhereOp =
 	| '=='
@@ -14,6 +15,16 @@ export type WhereOp =
 	| 'array-contains'
 	| 'array-contains-any';
 export type OrderDirection = 'asc' | 'desc';
+export type DistanceMeasure = 'EUCLIDEAN' | 'COSINE' | 'DOT_PRODUCT';
+
+export type FindNearestClause = {
+	vectorField: string;
+	queryVector: VectorValue;
+	limit: number;
+	distanceMeasure: DistanceMeasure;
+	distanceResultField: string | null;
+	distanceThreshold: number | null;
+};
 
 type FieldFilter = {
 	fieldFilter: { field: { fieldPath: string }; op: string; value: FirestoreValue };
@@ -79,6 +90,7 @@ export function encodeStructuredQuery(options: {
 	select?: string[] | null;
 	startAt?: { values: unknown[]; inclusive: boolean } | null;
 	endAt?: { values: unknown[]; inclusive: boolean } | null;
+	findNearest?: FindNearestClause | null;
 }): unknown {
 	const from = [
 		options.allDescendants
@@ -123,5 +135,20 @@ export function encodeStructuredQuery(options: {
 			values: options.endAt.values.map((entry) => toFirestoreValue(entry))
 		};
 	}
+	if (options.findNearest) {
+		const findNearest: Record<string, unknown> = {
+			vectorField: { fieldPath: options.findNearest.vectorField },
+			queryVector: toFirestoreValue(options.findNearest.queryVector),
+			distanceMeasure: options.findNearest.distanceMeasure,
+			limit: options.findNearest.limit
+		};
+		if (options.findNearest.distanceResultField !== null) {
+			findNearest.distanceResultField = options.findNearest.distanceResultField;
+		}
+		if (options.findNearest.distanceThreshold !== null) {
+			findNearest.distanceThreshold = options.findNearest.distanceThreshold;
+		}
+		structuredQuery.findNearest = findNearest;
+	}
 	return structuredQuery;
 }
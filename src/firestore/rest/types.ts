@@ -56,18 +56,38 @@ export const FirestoreDocumentSchema = z.object({
 	updateTime: z.string().optional()
 });
 
+export const ExplainMetricsSchema = z.object({
+	planSummary: z
+		.object({
+			indexesUsed: z.array(z.record(z.string(), z.unknown())).optional()
+		})
+		.optional(),
+	executionStats: z
+		.object({
+			resultsReturned: z.union([z.string(), z.number()]).optional(),
+			executionDuration: z.string().optional(),
+			readOperations: z.union([z.string(), z.number()]).optional(),
+			debugStats: z.record(z.string(), z.unknown()).optional()
+		})
+		.optional()
+});
+
+export type ExplainMetricsResponse = z.infer<typeof ExplainMetricsSchema>;
+
 export type RunQueryResponse = {
 	document?: FirestoreDocument;
 	readTime?: string;
 	skippedResults?: number;
 	transaction?: string;
+	explainMetrics?: ExplainMetricsResponse;
 };
 
 export const RunQueryResponseSchema = z.object({
 	document: FirestoreDocumentSchema.optional(),
 	readTime: z.string().optional(),
 	skippedResults: z.number().optional(),
-	transaction: z.string().optional()
+	transaction: z.string().optional(),
+	explainMetrics: ExplainMetricsSchema.optional()
 });
 
 export const BatchGetDocumentsResponseSchema = z.object({
@@ -85,7 +105,8 @@ export const RunAggregationQueryResponseSchema = z.object({
 		})
 		.optional(),
 	readTime: z.string().optional(),
-	transaction: z.string().optional()
+	transaction: z.string().optional(),
+	explainMetrics: ExplainMetricsSchema.optional()
 });
 
 export type RunAggregationQueryResponse = z.infer<typeof RunAggregationQueryResponseSchema>;
@@ -93,7 +114,8 @@ export type RunAggregationQueryResponse = z.infer<typeof RunAggregationQueryResp
 const GoogleRpcStatusSchema = z.object({
 	code: z.number().int().optional(),
 	message: z.string().optional(),
-	status: z.string().optional()
+	status: z.string().optional(),
+	details: z.array(z.unknown()).optional()
 });
 
 export const BeginTransactionResponseSchema = z.object({
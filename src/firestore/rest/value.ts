@@ -1,6 +1,7 @@
 import { Timestamp } from '../timestamp.js';
 import { Bytes } from '../bytes.js';
 import { GeoPoint } from '../geo-point.js';
+import { VectorValue } from '../vector-value.js';
 
 import type { FirestoreValue } from './types.js';
 
@@ -55,6 +56,61 @@ function isPlainObject(value: unknown): value is Record<string, unknown> {
 	);
 }
 
+const VECTOR_TYPE_KEY = '__type__';
+const VECTOR_TYPE_VALUE = '__vector__';
+const VECTOR_VALUE_KEY = 'value';
+
+function decodeVectorValue(fields: Record<string, FirestoreValue> | undefined): VectorValue | null {
+	if (!fields) {
+		return null;
+	}
+	const type = fields[VECTOR_TYPE_KEY] as FirestoreValue | undefined;
+	if (!type || !('stringValue' in type) || type.stringValue !== VECTOR_TYPE_VALUE) {
+		return null;
+	}
+	const values = fields[VECTOR_VALUE_KEY] as FirestoreValue | undefined;
+	if (!values || !('arrayValue' in values)) {
+		return null;
+	}
+	const numbers: number[] = [];
+	for (const entry of values.arrayValue.values ?? []) {
+		if ('doubleValue' in entry) {
+			numbers.push(entry.doubleValue);
+		} else if ('integerValue' in entry) {
+			numbers.push(Number(entry.integerValue));
+		} else {
+			return null;
+		}
+	}
+	return new VectorValue(numbers);
+}
+
+const RFC3339_RE = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})$/i;
+
+export function encodeTimestamp(timestamp: Timestamp): string {
+	const base = new Date(timestamp.seconds * 1000).toISOString().slice(0, 19);
+	const fraction =
+		timestamp.nanoseconds % 1_000_000 === 0
+			? String(timestamp.nanoseconds / 1_000_000).padStart(3, '0')
+			: String(timestamp.nanoseconds).padStart(9, '0');
+	return `${base}.${fraction}Z`;
+}
+
+export function decodeTimestamp(value: string): Timestamp | null {
+	const match = RFC3339_RE.exec(value.trim());
+	if (!match) {
+		const date = new Date(value);
+		return Number.isNaN(date.getTime()) ? null : Timestamp.fromDate(date);
+	}
+	const [, base, fraction = '', offset] = match;
+	const millis = Date.parse(`${base}${offset}`);
+	if (Number.isNaN(millis)) {
+		return null;
+	}
+	const nanoseconds = Number(fraction.padEnd(9, '0'));
+	return new Timestamp(Math.floor(millis / 1000), nanoseconds);
+}
+
 function bytesToBase64(bytes: Uint8Array): string {
 	let binary = '';
 	for (const byte of bytes) {
@@ -88,7 +144,7 @@ export function toFirestoreValue(
 		return { stringValue: value };
 	}
 	if (value instanceof Timestamp) {
-		return { timestampValue: value.toDate().toISOString() };
+		return { timestampValue: encodeTimestamp(value) };
 	}
 	if (value instanceof Date) {
 		return { timestampValue: value.toISOString() };
@@ -99,6 +155,18 @@ export function toFirestoreValue(
 	if (value instanceof GeoPoint) {
 		return { geoPointValue: { latitude: value.latitude, longitude: value.longitude } };
 	}
+	if (value instanceof VectorValue) {
+		return {
+			mapValue: {
+				fields: {
+					[VECTOR_TYPE_KEY]: { stringValue: VECTOR_TYPE_VALUE },
+					[VECTOR_VALUE_KEY]: {
+						arrayValue: { values: value.toArray().map((entry) => ({ doubleValue: entry })) }
+					}
+				}
+			}
+		};
+	}
 	if (isDocumentReferenceLike(value)) {
 		const rest = value.firestore._getRestClient();
 		return { referenceValue: rest.documentResourceName(value.path) };
@@ -167,11 +235,7 @@ export function fromFirestoreValue(
 		return Bytes.fromBase64String(value.bytesValue);
 	}
 	if ('timestampValue' in value) {
-		const date = new Date(value.timestampValue);
-		if (Number.isNaN(date.getTime())) {
-			return value.timestampValue;
-		}
-		return Timestamp.fromDate(date);
+		return decodeTimestamp(value.timestampValue) ?? value.timestampValue;
 	}
 	if ('referenceValue' in value) {
 		return options.referenceValueResolver
@@ -186,6 +250,10 @@ export function fromFirestoreValue(
 		return values.map((entry) => fromFirestoreValue(entry, options));
 	}
 	if ('mapValue' in value) {
+		const vector = decodeVectorValue(value.mapValue.fields);
+		if (vector) {
+			return vector;
+		}
 		const out: Record<string, unknown> = {};
 		const fields = value.mapValue.fields ?? {};
 		for (const [key, entry] of Object.entries(fields)) {
@@ -0,0 +1,23 @@
+export class VectorValue {
+	private readonly values: number[];
+
+	constructor(values: readonly number[] | undefined) {
+		const copy = [...(values ?? [])];
+		if (copy.some((value) => typeof value !== 'number' || !Number.isFinite(value))) {
+			throw new Error('VectorValue elements must be finite numbers.');
+		}
+		this.values = copy;
+	}
+
+	toArray(): number[] {
+		return [...this.values];
+	}
+
+	isEqual(other: VectorValue): boolean {
+		const otherValues = other.toArray();
+		return (
+			this.values.length === otherValues.length &&
+			this.values.every((value, i) => value === otherValues[i])
+		);
+	}
+}
@@ -0,0 +1,168 @@
+import { createHash } from 'node:crypto';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type FakeChannel = {
+	options: { onMessage: (message: unknown) => void };
+	sent: unknown[];
+};
+
+const channels: FakeChannel[] = [];
+
+vi.mock('../src/firestore/listen/webchannel.js', () => ({
+	openWebChannel: vi.fn((options: FakeChannel['options']) => {
+		const channel: FakeChannel = { options, sent: [] };
+		channels.push(channel);
+		return {
+			send: (message: unknown) => {
+				channel.sent.push(message);
+			},
+			close: () => undefined
+		};
+	})
+}));
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { Firestore, type QuerySnapshot } from '../src/firestore/firestore.js';
+import { BloomFilter, md5, parseBloomFilter } from '../src/firestore/listen/bloom-filter.js';
+
+const DOCUMENTS = 'projects/p/databases/(default)/documents';
+
+function buildBloomFilter(names: string[], bitCount: number, hashCount: number) {
+	const bitmap = new Uint8Array(Math.ceil(bitCount / 8));
+	for (const name of names) {
+		const digest = createHash('md5').update(name).digest();
+		const h1 = digest.readBigUInt64LE(0);
+		const h2 = digest.readBigUInt64LE(8);
+		for (let i = 0; i < hashCount; i += 1) {
+			const index = Number(((h1 + BigInt(i) * h2) % (1n << 64n)) % BigInt(bitCount));
+			bitmap[Math.floor(index / 8)] |= 1 << (index % 8);
+		}
+	}
+	return {
+		bits: {
+			bitmap: Buffer.from(bitmap).toString('base64'),
+			padding: bitmap.length * 8 - bitCount
+		},
+		hashCount
+	};
+}
+
+function docChange(id: string) {
+	return {
+		documentChange: {
+			document: {
+				name: `${DOCUMENTS}/col/${id}`,
+				fields: {},
+				updateTime: '2026-02-05T00:00:00Z'
+			},
+			targetIds: [1]
+		}
+	};
+}
+
+beforeEach(async () => {
+	channels.length = 0;
+	vi.useFakeTimers();
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('BloomFilter', () => {
+	it('computes MD5 digests', () => {
+		for (const input of ['', 'abc', 'x'.repeat(55), 'x'.repeat(56), `${DOCUMENTS}/col/ü`]) {
+			const expected = createHash('md5').update(input).digest('hex');
+			expect(Buffer.from(md5(new TextEncoder().encode(input))).toString('hex')).toBe(expected);
+		}
+	});
+
+	it('checks membership of encoded names', () => {
+		const names = Array.from({ length: 20 }, (_, i) => `${DOCUMENTS}/col/doc${String(i)}`);
+		const bloomFilter = parseBloomFilter(buildBloomFilter(names, 1021, 7));
+
+		expect(bloomFilter?.size).toBe(1021);
+		for (const name of names) {
+			expect(bloomFilter?.mightContain(name)).toBe(true);
+		}
+		expect(bloomFilter?.mightContain(`${DOCUMENTS}/col/other`)).toBe(false);
+	});
+
+	it('rejects unusable filters', () => {
+		expect(() => new BloomFilter(new Uint8Array(1), 8, 1)).toThrow(/padding/);
+		expect(() => new BloomFilter(new Uint8Array(1), 0, 0)).toThrow(/hash count/);
+		expect(() => new BloomFilter(new Uint8Array(0), 1, 0)).toThrow(/padding/);
+		expect(new BloomFilter(new Uint8Array(0), 0, 0).mightContain('a')).toBe(false);
+
+		expect(parseBloomFilter(undefined)).toBeNull();
+		expect(parseBloomFilter({ bits: { bitmap: '', padding: 0 }, hashCount: 0 })).toBeNull();
+		expect(parseBloomFilter({ bits: { bitmap: 'AA==', padding: 9 }, hashCount: 1 })).toBeNull();
+	});
+});
+
+describe('existence filter mismatches', () => {
+	it('removes documents missing from the bloom filter and resets when it cannot', async () => {
+		const app = initializeApp({
+			credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+			projectId: 'p'
+		});
+		const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+		const snapshots: QuerySnapshot[] = [];
+		firestore.collection('col').onSnapshot((snap) => snapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		const [channel] = channels;
+		const { onMessage } = channel.options;
+		onMessage(docChange('a'));
+		onMessage(docChange('b'));
+		onMessage(docChange('c'));
+		onMessage({ targetChange: { targetChangeType: 'CURRENT', targetIds: [1], resumeToken: 't1' } });
+		await vi.advanceTimersByTimeAsync(0);
+		expect(snapshots).toHaveLength(1);
+
+		onMessage({
+			filter: {
+				targetId: 1,
+				count: 2,
+				unchangedNames: buildBloomFilter([`${DOCUMENTS}/col/a`, `${DOCUMENTS}/col/c`], 1021, 7)
+			}
+		});
+		onMessage({ targetChange: { targetIds: [], resumeToken: 't2' } });
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(snapshots).toHaveLength(2);
+		expect(snapshots[1].docs.map((doc) => doc.id)).toEqual(['a', 'c']);
+		expect(snapshots[1].docChanges().map((change) => [change.type, change.doc.id])).toEqual([
+			['modified', 'c'],
+			['removed', 'b']
+		]);
+		expect(channel.sent).toHaveLength(1);
+
+		onMessage({ filter: { targetId: 1, count: 1 } });
+		expect(channel.sent.slice(1)).toEqual([
+			{ database: 'projects/p/databases/(default)', removeTarget: 1 },
+			{
+				database: 'projects/p/databases/(default)',
+				addTarget: expect.not.objectContaining({
+					resumeToken: expect.anything() as unknown
+				}) as unknown
+			}
+		]);
+
+		// Messages for the old target are dropped until the removal is acknowledged.
+		onMessage(docChange('stale'));
+		onMessage({ targetChange: { targetChangeType: 'REMOVE', targetIds: [1] } });
+		onMessage({ targetChange: { targetChangeType: 'ADD', targetIds: [1] } });
+		onMessage(docChange('a'));
+		onMessage({ targetChange: { targetChangeType: 'CURRENT', targetIds: [1], resumeToken: 't3' } });
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(snapshots).toHaveLength(3);
+		expect(snapshots[2].docs.map((doc) => doc.id)).toEqual(['a']);
+		expect(snapshots[2].docChanges().map((change) => [change.type, change.doc.id])).toEqual([
+			['removed', 'c']
+		]);
+	});
+});
@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
 import { BulkWriterError, Firestore } from '../src/firestore/firestore.js';
@@ -76,5 +76,100 @@ describe('BulkWriter', () => {
 		await bw.flush();
 
 		await expect(p).rejects.toBeInstanceOf(BulkWriterError);
+		await expect(p).rejects.toMatchObject({
+			code: 'internal',
+			grpcStatus: 13,
+			method: 'batchWrite',
+			message: 'boom'
+		});
+	});
+
+	it('caps batches at the throttling capacity unless throttling is disabled', async () => {
+		const app = initializeApp({
+			credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+			projectId: 'p'
+		});
+		const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+		const batchSizes: number[] = [];
+		const restStub = {
+			documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+			batchWrite: (options: { writes: unknown[] }) => {
+				batchSizes.push(options.writes.length);
+				return Promise.resolve({
+					writeResults: options.writes.map(() => ({ updateTime: '2026-02-05T00:00:00.000Z' })),
+					status: options.writes.map(() => ({ code: 0 }))
+				});
+			}
+		};
+		(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+			restStub as unknown;
+
+		const throttled = firestore.bulkWriter({
+			throttling: { initialOpsPerSecond: 2, maxOpsPerSecond: 2 }
+		});
+		for (let i = 0; i < 3; i += 1) {
+			void throttled.set(firestore.doc(`col/doc${String(i)}`), { i });
+		}
+		await throttled.close();
+		expect(batchSizes).toEqual([2, 1]);
+
+		batchSizes.length = 0;
+		const unthrottled = firestore.bulkWriter({ throttling: false });
+		for (let i = 0; i < 25; i += 1) {
+			void unthrottled.set(firestore.doc(`col/doc${String(i)}`), { i });
+		}
+		await unthrottled.close();
+		expect(batchSizes).toEqual([20, 5]);
+
+		expect(() =>
+			firestore.bulkWriter({ throttling: { initialOpsPerSecond: 10, maxOpsPerSecond: 5 } })
+		).toThrow(/cannot be less than/);
+	});
+
+	it('starts the throttling ramp-up with the first write', async () => {
+		const app = initializeApp({
+			credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+			projectId: 'p'
+		});
+		const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+		const batchSizes: number[] = [];
+		const restStub = {
+			documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+			batchWrite: (options: { writes: unknown[] }) => {
+				batchSizes.push(options.writes.length);
+				return Promise.resolve({
+					writeResults: options.writes.map(() => ({ updateTime: '2026-02-05T00:00:00.000Z' })),
+					status: options.writes.map(() => ({ code: 0 }))
+				});
+			}
+		};
+		(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+			restStub as unknown;
+
+		vi.useFakeTimers();
+		try {
+			const clock = { now: 0 };
+			const bulkWriter = firestore.bulkWriter({
+				throttling: { initialOpsPerSecond: 2, maxOpsPerSecond: 10 },
+				now: () => clock.now
+			});
+			// Two ramp-up periods pass before anything is written.
+			clock.now = 10 * 60 * 1000;
+			for (let i = 0; i < 3; i += 1) {
+				void bulkWriter.set(firestore.doc(`col/doc${String(i)}`), { i });
+			}
+			const closed = bulkWriter.close();
+			await vi.advanceTimersByTimeAsync(0);
+			expect(batchSizes).toEqual([2]);
+
+			clock.now += 500;
+			await vi.advanceTimersByTimeAsync(500);
+			await closed;
+			expect(batchSizes).toEqual([2, 1]);
+		} finally {
+			vi.useRealTimers();
+		}
 	});
 });
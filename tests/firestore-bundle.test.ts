@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { Firestore } from '../src/firestore/firestore.js';
+
+const DOC_A = {
+	name: 'projects/p/databases/(default)/documents/posts/a',
+	fields: { title: { stringValue: 'Hello' }, likes: { integerValue: '3' } },
+	createTime: '2026-02-01T00:00:00.123456Z',
+	updateTime: '2026-02-02T00:00:00.123456Z'
+};
+
+const DOC_B = {
+	name: 'projects/p/databases/(default)/documents/posts/b',
+	fields: { title: { stringValue: 'World' }, likes: { integerValue: '5' } },
+	createTime: '2026-02-01T00:00:00Z',
+	updateTime: '2026-02-03T00:00:00Z'
+};
+
+function createFirestoreWithStubbedRest() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+		getDocument: () => Promise.resolve(DOC_A),
+		batchGetDocuments: () =>
+			Promise.resolve([
+				{ found: DOC_A, readTime: '2026-02-05T00:00:00.000000001Z' },
+				{
+					missing: 'projects/p/databases/(default)/documents/posts/missing',
+					readTime: '2026-02-05T00:00:00.000000001Z'
+				}
+			]),
+		runQuery: () =>
+			Promise.resolve([
+				{ document: DOC_B, readTime: '2026-02-06T00:00:00Z' },
+				{ document: DOC_A, readTime: '2026-02-06T00:00:00Z' }
+			])
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+
+	return firestore;
+}
+
+function parseBundle(bytes: Uint8Array): Array<Record<string, unknown>> {
+	const decoder = new TextDecoder();
+	const elements: Array<Record<string, unknown>> = [];
+	let offset = 0;
+	while (offset < bytes.length) {
+		let lengthText = '';
+		while (bytes[offset] !== 0x7b) {
+			lengthText += String.fromCharCode(bytes[offset]);
+			offset += 1;
+		}
+		const length = Number(lengthText);
+		elements.push(
+			JSON.parse(decoder.decode(bytes.subarray(offset, offset + length))) as Record<string, unknown>
+		);
+		offset += length;
+	}
+	return elements;
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('BundleBuilder', () => {
+	it('encodes documents and named queries as length-prefixed elements', async () => {
+		const firestore = createFirestoreWithStubbedRest();
+		const [docA, missing] = await firestore.getAll(
+			firestore.doc('posts/a'),
+			firestore.doc('posts/missing')
+		);
+		const query = firestore.collection('posts').orderBy('likes').limitToLast(2);
+		const querySnapshot = await query.get();
+
+		const bytes = firestore
+			.bundle('my-bundle')
+			.add(docA)
+			.add(missing)
+			.add('top', querySnapshot)
+			.build();
+		const elements = parseBundle(bytes);
+
+		const metadataLength = new TextEncoder().encode(JSON.stringify(elements[0])).length;
+		const prefixLength = String(metadataLength).length;
+		expect(elements[0]).toEqual({
+			metadata: {
+				id: 'my-bundle',
+				createTime: '2026-02-06T00:00:00.000Z',
+				version: 1,
+				totalDocuments: 3,
+				totalBytes: bytes.length - metadataLength - prefixLength
+			}
+		});
+		expect(elements[1]).toEqual({
+			namedQuery: {
+				name: 'top',
+				bundledQuery: {
+					parent: 'projects/p/databases/(default)/documents',
+					structuredQuery: expect.objectContaining({
+						from: [{ collectionId: 'posts' }],
+						orderBy: [
+							{ field: { fieldPath: 'likes' }, direction: 'ASCENDING' },
+							{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }
+						],
+						limit: 2
+					}) as unknown,
+					limitType: 'LAST'
+				},
+				readTime: '2026-02-06T00:00:00.000Z'
+			}
+		});
+		expect(elements.slice(2)).toEqual([
+			{
+				documentMetadata: {
+					name: DOC_A.name,
+					readTime: '2026-02-06T00:00:00.000Z',
+					exists: true,
+					queries: ['top']
+				}
+			},
+			{ document: DOC_A },
+			{
+				documentMetadata: {
+					name: 'projects/p/databases/(default)/documents/posts/missing',
+					readTime: '2026-02-05T00:00:00.000000001Z',
+					exists: false,
+					queries: []
+				}
+			},
+			{
+				documentMetadata: {
+					name: DOC_B.name,
+					readTime: '2026-02-06T00:00:00.000Z',
+					exists: true,
+					queries: ['top']
+				}
+			},
+			{ document: DOC_B }
+		]);
+	});
+
+	it('rejects snapshots without a read time or read with a field mask', async () => {
+		const firestore = createFirestoreWithStubbedRest();
+		const bundle = firestore.bundle();
+
+		const withoutReadTime = await firestore.doc('posts/a').get();
+		expect(() => bundle.add(withoutReadTime)).toThrow(/requires a read time for 'posts\/a'/);
+
+		const [masked] = await firestore.getAll(firestore.doc('posts/a'), { fieldMask: ['title'] });
+		expect(() => bundle.add(masked)).toThrow(/read with a field mask/);
+	});
+
+	it('rejects duplicate query names', async () => {
+		const firestore = createFirestoreWithStubbedRest();
+		const snapshot = await firestore.collection('posts').get();
+		const bundle = firestore.bundle().add('q', snapshot);
+		expect(() => bundle.add('q', snapshot)).toThrow(/Query name conflict/);
+	});
+});
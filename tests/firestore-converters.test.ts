@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import {
+	Firestore,
+	type FirestoreDataConverter,
+	type PartialWithFieldValue,
+	type QueryDocumentSnapshot,
+	type SetOptions
+} from '../src/firestore/firestore.js';
+import { doc, getDocs, setDoc } from '../src/firestore/modular.js';
+
+class Post {
+	constructor(
+		readonly title: string,
+		readonly likes: number
+	) {}
+}
+
+const calls: Array<{ merge: boolean }> = [];
+
+const postConverter: FirestoreDataConverter<Post> = {
+	toFirestore(post: PartialWithFieldValue<Post>, options?: SetOptions) {
+		calls.push({ merge: options?.merge ?? false });
+		const data: Record<string, unknown> = {};
+		if (post.title !== undefined) {
+			data.title = post.title;
+		}
+		if (post.likes !== undefined) {
+			data.likes = post.likes;
+		}
+		return data;
+	},
+	fromFirestore(snapshot: QueryDocumentSnapshot) {
+		const data = snapshot.data();
+		return new Post(String(data.title), Number(data.likes));
+	}
+};
+
+function createFirestoreWithStubbedRest() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const commits: Array<{ writes: unknown[] }> = [];
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+		getDocument: () =>
+			Promise.resolve({
+				name: 'projects/p/databases/(default)/documents/posts/a',
+				fields: { title: { stringValue: 'Hello' }, likes: { integerValue: '3' } },
+				updateTime: '2026-02-05T00:00:00.000Z'
+			}),
+		runQuery: () =>
+			Promise.resolve([
+				{
+					document: {
+						name: 'projects/p/databases/(default)/documents/posts/b',
+						fields: { title: { stringValue: 'World' }, likes: { integerValue: '5' } }
+					},
+					readTime: '2026-02-05T00:00:00.000Z'
+				}
+			]),
+		commit: (options: { writes: unknown[] }) => {
+			commits.push(options);
+			return Promise.resolve({ commitTime: '2026-02-05T00:00:00.000Z' });
+		}
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+
+	return { firestore, commits };
+}
+
+beforeEach(async () => {
+	calls.length = 0;
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('withConverter', () => {
+	it('converts document reads and keeps raw fields available via get()', async () => {
+		const { firestore } = createFirestoreWithStubbedRest();
+		const ref = firestore.doc('posts/a').withConverter(postConverter);
+
+		const snap = await ref.get();
+		const post = snap.data();
+		expect(post).toBeInstanceOf(Post);
+		expect(post?.title).toBe('Hello');
+		expect(snap.get('likes')).toBe(3);
+
+		expect(ref.withConverter(null).path).toBe('posts/a');
+		expect(ref.parent.doc('c')._getConverter()).toBe(postConverter);
+	});
+
+	it('converts query results through getDocs()', async () => {
+		const { firestore } = createFirestoreWithStubbedRest();
+		const col = firestore.collection('posts').withConverter(postConverter);
+
+		const snap = await getDocs(col.where('likes', '>', 1));
+		expect(snap.docs[0]?.data()).toEqual(new Post('World', 5));
+		expect(snap.docs[0]?.ref._getConverter()).toBe(postConverter);
+	});
+
+	it('passes set options to toFirestore for merge writes', async () => {
+		const { firestore, commits } = createFirestoreWithStubbedRest();
+		const ref = doc(firestore.collection('posts').withConverter(postConverter), 'a');
+
+		await setDoc(ref, new Post('Hello', 1));
+		await ref.set({ likes: 2 }, { merge: true });
+
+		const batch = firestore.batch();
+		batch.create(ref, new Post('Other', 0));
+		await batch.commit();
+
+		expect(calls).toEqual([{ merge: false }, { merge: true }, { merge: false }]);
+		expect(commits[0]?.writes[0]).toMatchObject({
+			update: { fields: { title: { stringValue: 'Hello' }, likes: { integerValue: '1' } } }
+		});
+	});
+});
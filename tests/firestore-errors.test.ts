@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import { FirestoreApiError, FirestoreError } from '../src/firestore/errors.js';
+import { FirestoreRestClient } from '../src/firestore/rest/client.js';
+
+describe('FirestoreError', () => {
+	it('parses REST error bodies with their status details', async () => {
+		const rest = new FirestoreRestClient({
+			projectId: 'p',
+			baseUrl: 'http://127.0.0.1:9999',
+			fetch: () =>
+				Promise.resolve(
+					Response.json(
+						{
+							error: {
+								code: 409,
+								message: 'Too much contention on these documents.',
+								status: 'ABORTED',
+								details: [
+									{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '1.500s' },
+									{
+										'@type': 'type.googleapis.com/google.rpc.ErrorInfo',
+										reason: 'CONTENTION',
+										domain: 'firestore.googleapis.com',
+										metadata: { database: '(default)' }
+									}
+								]
+							}
+						},
+						{ status: 409 }
+					)
+				)
+		});
+
+		const error = await rest.commit({ writes: [] }).catch((caught: unknown) => caught);
+		expect(error).toBeInstanceOf(FirestoreError);
+		expect(error).toBeInstanceOf(FirestoreApiError);
+		expect(error).toMatchObject({
+			message: 'Firestore commit failed (409): Too much contention on these documents.',
+			code: 'aborted',
+			grpcStatus: 10,
+			apiStatus: 'ABORTED',
+			httpStatus: 409,
+			method: 'commit',
+			retryDelayMs: 1500,
+			details: [
+				{ type: 'RetryInfo', retryDelayMs: 1500 },
+				{
+					type: 'ErrorInfo',
+					reason: 'CONTENTION',
+					domain: 'firestore.googleapis.com',
+					metadata: { database: '(default)' }
+				}
+			]
+		});
+	});
+
+	it('derives the status from whichever of name, gRPC code or HTTP status is known', () => {
+		expect(new FirestoreError('a', { apiStatus: 'NOT_FOUND' })).toMatchObject({
+			code: 'not-found',
+			grpcStatus: 5,
+			httpStatus: null
+		});
+		expect(new FirestoreError('b', { grpcStatus: 9 })).toMatchObject({
+			code: 'failed-precondition',
+			apiStatus: 'FAILED_PRECONDITION'
+		});
+		expect(new FirestoreError('c', { httpStatus: 503 })).toMatchObject({
+			code: 'unavailable',
+			grpcStatus: 14
+		});
+		expect(new FirestoreError('d', { httpStatus: 418 })).toMatchObject({
+			code: 'unknown',
+			httpStatus: 418,
+			method: null,
+			retryDelayMs: null
+		});
+	});
+});
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { Firestore } from '../src/firestore/firestore.js';
+
+const PLAN_SUMMARY = {
+	indexesUsed: [{ query_scope: 'Collection', properties: '(a ASC, __name__ ASC)' }]
+};
+
+const EXECUTION_STATS = {
+	resultsReturned: '1',
+	executionDuration: '0.012500s',
+	readOperations: '2',
+	debugStats: { documents_scanned: '1' }
+};
+
+function createFirestoreWithStubbedRest() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const calls: Array<{ explainOptions?: { analyze: boolean } }> = [];
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+		runQuery: (options: { explainOptions?: { analyze: boolean } }) => {
+			calls.push(options);
+			if (!options.explainOptions?.analyze) {
+				return Promise.resolve([{ explainMetrics: { planSummary: PLAN_SUMMARY } }]);
+			}
+			return Promise.resolve([
+				{
+					document: {
+						name: 'projects/p/databases/(default)/documents/col/a',
+						fields: { a: { integerValue: '1' } }
+					},
+					readTime: '2026-02-05T00:00:00Z'
+				},
+				{
+					readTime: '2026-02-05T00:00:00Z',
+					explainMetrics: { planSummary: PLAN_SUMMARY, executionStats: EXECUTION_STATS }
+				}
+			]);
+		},
+		runAggregationQuery: (options: { explainOptions?: { analyze: boolean } }) => {
+			calls.push(options);
+			return Promise.resolve([
+				{
+					result: { aggregateFields: { count: { integerValue: '1' } } },
+					readTime: '2026-02-05T00:00:00Z',
+					explainMetrics: { planSummary: PLAN_SUMMARY, executionStats: EXECUTION_STATS }
+				}
+			]);
+		}
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+
+	return { firestore, calls };
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('Query explain', () => {
+	it('returns the plan summary without a snapshot by default', async () => {
+		const { firestore, calls } = createFirestoreWithStubbedRest();
+
+		const results = await firestore.collection('col').where('a', '==', 1).explain();
+		expect(calls[0]?.explainOptions).toEqual({ analyze: false });
+		expect(results.metrics).toEqual({ planSummary: PLAN_SUMMARY, executionStats: null });
+		expect(results.snapshot).toBeNull();
+	});
+
+	it('returns execution stats and results when analyzing', async () => {
+		const { firestore, calls } = createFirestoreWithStubbedRest();
+
+		const results = await firestore.collection('col').explain({ analyze: true });
+		expect(calls[0]?.explainOptions).toEqual({ analyze: true });
+		expect(results.metrics.executionStats).toEqual({
+			resultsReturned: 1,
+			executionDuration: { seconds: 0, nanoseconds: 12_500_000 },
+			readOperations: 2,
+			debugStats: { documents_scanned: '1' }
+		});
+		expect(results.snapshot?.docs.map((doc) => doc.id)).toEqual(['a']);
+	});
+
+	it('supports AggregateQuery.explain()', async () => {
+		const { firestore, calls } = createFirestoreWithStubbedRest();
+
+		const results = await firestore.collection('col').count().explain({ analyze: true });
+		expect(calls[0]?.explainOptions).toEqual({ analyze: true });
+		expect(results.metrics.planSummary.indexesUsed).toHaveLength(1);
+		expect(results.snapshot?.data()).toEqual({ count: 1 });
+	});
+});
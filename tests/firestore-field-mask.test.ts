@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { FieldPath } from '../src/firestore/field-path.js';
+import { Firestore } from '../src/firestore/firestore.js';
+import { FirestoreRestClient } from '../src/firestore/rest/client.js';
+
+const PROFILE = {
+	name: 'projects/p/databases/(default)/documents/users/a',
+	fields: {
+		displayName: { stringValue: 'Ada' },
+		settings: { mapValue: { fields: { theme: { stringValue: 'dark' } } } }
+	},
+	createTime: '2026-02-05T00:00:00Z',
+	updateTime: '2026-02-05T00:00:00Z'
+};
+
+function createFirestoreWithStubbedFetch() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const requests: Array<{ url: URL; body: unknown }> = [];
+	const rest = new FirestoreRestClient({
+		projectId: 'p',
+		baseUrl: 'http://127.0.0.1:9999',
+		fetch: (input, init) => {
+			const body = init?.body ? (JSON.parse(init.body as string) as unknown) : null;
+			requests.push({ url: new URL(input as string), body });
+			const payload = body ? [{ found: PROFILE, readTime: '2026-02-05T00:00:00Z' }] : PROFILE;
+			return Promise.resolve(new Response(JSON.stringify(payload), { status: 200 }));
+		}
+	});
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () => rest;
+
+	return { firestore, requests };
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('field masks on document reads', () => {
+	it('sends mask.fieldPaths from DocumentReference.get()', async () => {
+		const { firestore, requests } = createFirestoreWithStubbedFetch();
+
+		const snapshot = await firestore
+			.doc('users/a')
+			.get({ fieldMask: ['displayName', new FieldPath('settings', 'theme')] });
+
+		expect(requests[0]?.url.searchParams.getAll('mask.fieldPaths')).toEqual([
+			'displayName',
+			'settings.theme'
+		]);
+		expect(snapshot.get('displayName')).toBe('Ada');
+	});
+
+	it('reads no fields for an empty field mask', async () => {
+		const { firestore, requests } = createFirestoreWithStubbedFetch();
+
+		await firestore.doc('users/a').get({ fieldMask: [] });
+		await firestore.getAll(firestore.doc('users/a'), { fieldMask: [] });
+
+		expect(requests[0]?.url.searchParams.getAll('mask.fieldPaths')).toEqual(['__name__']);
+		expect(requests[1]?.body).toMatchObject({ mask: { fieldPaths: [] } });
+	});
+
+	it('sends mask.fieldPaths from Firestore.getAll()', async () => {
+		const { firestore, requests } = createFirestoreWithStubbedFetch();
+
+		const [snapshot] = await firestore.getAll(firestore.doc('users/a'), {
+			fieldMask: ['displayName']
+		});
+
+		expect(requests[0]?.body).toMatchObject({ mask: { fieldPaths: ['displayName'] } });
+		expect(snapshot.exists).toBe(true);
+
+		await firestore.doc('users/a').get();
+		expect(requests[1]?.url.searchParams.has('mask.fieldPaths')).toBe(false);
+	});
+});
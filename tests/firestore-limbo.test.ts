@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type FakeChannel = {
+	options: { onMessage: (message: unknown) => void };
+};
+
+const channels: FakeChannel[] = [];
+
+vi.mock('../src/firestore/listen/webchannel.js', () => ({
+	openWebChannel: vi.fn((options: FakeChannel['options']) => {
+		channels.push({ options });
+		return { send: () => undefined, close: () => undefined };
+	})
+}));
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { FirestoreError } from '../src/firestore/errors.js';
+import { Firestore, type QuerySnapshot } from '../src/firestore/firestore.js';
+
+const DOCUMENTS = 'projects/p/databases/(default)/documents';
+
+function document(path: string, updateTime = '2026-02-05T00:00:00Z') {
+	return { name: `${DOCUMENTS}/${path}`, fields: {}, updateTime };
+}
+
+function createFirestore(runQuery: () => Promise<unknown[]>) {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `${DOCUMENTS}/${path}`,
+		runQuery
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+	return firestore;
+}
+
+beforeEach(async () => {
+	channels.length = 0;
+	vi.useFakeTimers();
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('limbo resolution', () => {
+	it('re-queries limited listeners when a document leaves the window', async () => {
+		const runQuery = vi.fn(() =>
+			Promise.resolve([
+				{ document: document('col/a'), readTime: '2026-02-05T00:00:01Z' },
+				{ document: document('col/c'), readTime: '2026-02-05T00:00:01Z' }
+			])
+		);
+		const firestore = createFirestore(runQuery);
+		const snapshots: QuerySnapshot[] = [];
+		firestore
+			.collection('col')
+			.limit(2)
+			.onSnapshot((snap) => snapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		const { onMessage } = channels[0].options;
+		onMessage({ documentChange: { document: document('col/a'), targetIds: [1] } });
+		onMessage({ documentChange: { document: document('col/b'), targetIds: [1] } });
+		onMessage({ targetChange: { targetChangeType: 'CURRENT', targetIds: [1] } });
+		await vi.advanceTimersByTimeAsync(0);
+		expect(snapshots.map((snap) => snap.docs.map((doc) => doc.id))).toEqual([['a', 'b']]);
+		expect(runQuery).not.toHaveBeenCalled();
+
+		onMessage({ documentDelete: { document: `${DOCUMENTS}/col/b`, removedTargetIds: [1] } });
+		onMessage({ targetChange: { targetIds: [] } });
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(runQuery).toHaveBeenCalledTimes(1);
+		expect(snapshots).toHaveLength(2);
+		expect(snapshots[1].docs.map((doc) => doc.id)).toEqual(['a', 'c']);
+		expect(snapshots[1].docChanges().map((change) => [change.type, change.doc.id])).toEqual([
+			['added', 'c'],
+			['removed', 'b']
+		]);
+	});
+
+	it('keeps documents changed by the watch stream while the re-query is in flight', async () => {
+		let resolveQuery: (responses: unknown[]) => void = () => undefined;
+		const runQuery = vi.fn(
+			() =>
+				new Promise<unknown[]>((resolve) => {
+					resolveQuery = resolve;
+				})
+		);
+		const firestore = createFirestore(runQuery);
+		const snapshots: QuerySnapshot[] = [];
+		firestore
+			.collection('col')
+			.limit(2)
+			.onSnapshot((snap) => snapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		const { onMessage } = channels[0].options;
+		onMessage({ documentChange: { document: document('col/a'), targetIds: [1] } });
+		onMessage({ documentChange: { document: document('col/b'), targetIds: [1] } });
+		onMessage({ targetChange: { targetChangeType: 'CURRENT', targetIds: [1] } });
+		await vi.advanceTimersByTimeAsync(0);
+
+		onMessage({ documentRemove: { document: `${DOCUMENTS}/col/b`, removedTargetIds: [1] } });
+		await vi.advanceTimersByTimeAsync(0);
+		expect(runQuery).toHaveBeenCalledTimes(1);
+
+		onMessage({
+			documentChange: { document: document('col/d', '2026-02-05T00:00:02Z'), targetIds: [1] }
+		});
+		await vi.advanceTimersByTimeAsync(0);
+		expect(snapshots).toHaveLength(1);
+
+		resolveQuery([
+			{ document: document('col/a'), readTime: '2026-02-05T00:00:01Z' },
+			{ document: document('col/c'), readTime: '2026-02-05T00:00:01Z' }
+		]);
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(snapshots).toHaveLength(2);
+		expect(snapshots[1].docs.map((doc) => doc.id)).toEqual(['a', 'c']);
+		expect(snapshots[1].docChanges().map((change) => [change.type, change.doc.id])).toEqual([
+			['added', 'c'],
+			['removed', 'b']
+		]);
+	});
+
+	it('emits the watch view and retries with backoff when the re-query fails', async () => {
+		const runQuery = vi
+			.fn<() => Promise<unknown[]>>()
+			.mockRejectedValueOnce(new FirestoreError('unavailable', { apiStatus: 'UNAVAILABLE' }))
+			.mockResolvedValue([
+				{ document: document('col/a'), readTime: '2026-02-05T00:00:01Z' },
+				{ document: document('col/c'), readTime: '2026-02-05T00:00:01Z' }
+			]);
+		const firestore = createFirestore(runQuery);
+		const snapshots: QuerySnapshot[] = [];
+		firestore
+			.collection('col')
+			.limit(2)
+			.onSnapshot((snap) => snapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		const { onMessage } = channels[0].options;
+		onMessage({ documentChange: { document: document('col/a'), targetIds: [1] } });
+		onMessage({ documentChange: { document: document('col/b'), targetIds: [1] } });
+		onMessage({ targetChange: { targetChangeType: 'CURRENT', targetIds: [1] } });
+		await vi.advanceTimersByTimeAsync(0);
+
+		onMessage({ documentDelete: { document: `${DOCUMENTS}/col/b`, removedTargetIds: [1] } });
+		await vi.advanceTimersByTimeAsync(0);
+		expect(runQuery).toHaveBeenCalledTimes(1);
+		expect(snapshots.map((snap) => snap.docs.map((doc) => doc.id))).toEqual([['a', 'b'], ['a']]);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(runQuery).toHaveBeenCalledTimes(2);
+		expect(snapshots.map((snap) => snap.docs.map((doc) => doc.id))).toEqual([
+			['a', 'b'],
+			['a'],
+			['a', 'c']
+		]);
+	});
+
+	it('reports re-query failures that retrying will not fix', async () => {
+		const runQuery = vi.fn(() =>
+			Promise.reject(new FirestoreError('denied', { apiStatus: 'PERMISSION_DENIED' }))
+		);
+		const firestore = createFirestore(runQuery);
+		const snapshots: QuerySnapshot[] = [];
+		const errors: unknown[] = [];
+		firestore
+			.collection('col')
+			.limit(2)
+			.onSnapshot(
+				(snap) => snapshots.push(snap),
+				(error) => errors.push(error)
+			);
+		await vi.advanceTimersByTimeAsync(0);
+
+		const { onMessage } = channels[0].options;
+		onMessage({ documentChange: { document: document('col/a'), targetIds: [1] } });
+		onMessage({ documentChange: { document: document('col/b'), targetIds: [1] } });
+		onMessage({ targetChange: { targetChangeType: 'CURRENT', targetIds: [1] } });
+		await vi.advanceTimersByTimeAsync(0);
+		onMessage({ documentDelete: { document: `${DOCUMENTS}/col/b`, removedTargetIds: [1] } });
+		await vi.advanceTimersByTimeAsync(60_000);
+
+		expect(errors).toMatchObject([{ code: 'permission-denied' }]);
+		expect(runQuery).toHaveBeenCalledTimes(1);
+		onMessage({ documentChange: { document: document('col/d'), targetIds: [1] } });
+		await vi.advanceTimersByTimeAsync(0);
+		expect(snapshots).toHaveLength(1);
+	});
+
+	it('orders collection-group results by document path segments', async () => {
+		const firestore = createFirestore(() => Promise.resolve([]));
+		const snapshots: QuerySnapshot[] = [];
+		firestore.collectionGroup('sub').onSnapshot((snap) => snapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		const { onMessage } = channels[0].options;
+		onMessage({ documentChange: { document: document('col/a-b/sub/y'), targetIds: [1] } });
+		onMessage({ documentChange: { document: document('col/a/sub/x'), targetIds: [1] } });
+		onMessage({ targetChange: { targetChangeType: 'CURRENT', targetIds: [1] } });
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(snapshots[0].docs.map((doc) => doc.ref.path)).toEqual(['col/a/sub/x', 'col/a-b/sub/y']);
+	});
+});
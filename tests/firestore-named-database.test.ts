@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { DocumentReference, getFirestore } from '../src/firestore/firestore.js';
+
+function createApp() {
+	return initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('named databases', () => {
+	it('caches one Firestore instance per app and database id', () => {
+		const app = createApp();
+		const defaultDb = getFirestore(app);
+		const analytics = getFirestore(app, 'analytics');
+
+		expect(getFirestore()).toBe(defaultDb);
+		expect(getFirestore(app, '(default)')).toBe(defaultDb);
+		expect(getFirestore('analytics')).toBe(analytics);
+		expect(analytics).not.toBe(defaultDb);
+		expect(analytics.databaseId).toBe('analytics');
+		expect(analytics._getRestClient().documentResourceName('users/a')).toBe(
+			'projects/p/databases/analytics/documents/users/a'
+		);
+	});
+
+	it('encodes and decodes references with their own database', async () => {
+		const app = createApp();
+		const analytics = getFirestore(app, 'analytics');
+		const defaultDb = getFirestore(app);
+
+		const commits: Array<{ writes: unknown[] }> = [];
+		const rest = analytics._getRestClient();
+		(analytics as unknown as { _getRestClient: () => unknown })._getRestClient = () => ({
+			databaseResourceName: () => rest.databaseResourceName(),
+			documentResourceName: (path: string) => rest.documentResourceName(path),
+			getDocument: () =>
+				Promise.resolve({
+					name: 'projects/p/databases/analytics/documents/events/e1',
+					fields: {
+						sameDb: { referenceValue: 'projects/p/databases/analytics/documents/users/a' },
+						otherDb: { referenceValue: 'projects/p/databases/(default)/documents/users/a' }
+					}
+				}),
+			commit: (options: { writes: unknown[] }) => {
+				commits.push(options);
+				return Promise.resolve({ commitTime: '2026-02-05T00:00:00.000Z' });
+			}
+		});
+
+		const snap = await analytics.doc('events/e1').get();
+		const sameDb = snap.get('sameDb');
+		expect(sameDb).toBeInstanceOf(DocumentReference);
+		expect((sameDb as DocumentReference).firestore).toBe(analytics);
+		expect(snap.get('otherDb')).toBe('projects/p/databases/(default)/documents/users/a');
+
+		await analytics.doc('events/e2').set({ user: defaultDb.doc('users/b') });
+		expect(commits[0]?.writes[0]).toMatchObject({
+			update: {
+				name: 'projects/p/databases/analytics/documents/events/e2',
+				fields: {
+					user: { referenceValue: 'projects/p/databases/(default)/documents/users/b' }
+				}
+			}
+		});
+	});
+});
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { DocumentReference, Firestore } from '../src/firestore/firestore.js';
+import { FirestoreRestClient } from '../src/firestore/rest/client.js';
+
+const ROOT = 'projects/p/databases/(default)/documents';
+
+function createFirestoreWithStubbedRest() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const pageTokens: Array<[string, string | undefined]> = [];
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `${ROOT}/${path}`,
+		listDocuments: (options: { pageToken?: string }) => {
+			pageTokens.push(['listDocuments', options.pageToken]);
+			const page = options.pageToken === 'next' ? ['c'] : ['a', 'b'];
+			return Promise.resolve({
+				documents: page.map((id) => ({ name: `${ROOT}/col/${id}` })),
+				nextPageToken: options.pageToken === 'next' ? null : 'next'
+			});
+		},
+		listCollectionIds: (options: { parentResourceName: string; pageToken?: string }) => {
+			pageTokens.push(['listCollectionIds', options.pageToken]);
+			return Promise.resolve({
+				collectionIds: options.pageToken ? ['second'] : ['first'],
+				nextPageToken: options.pageToken ? null : 'more'
+			});
+		},
+		partitionQuery: (options: { pageToken?: string }) => {
+			const id = options.pageToken ? 'a' : 'b';
+			return Promise.resolve({
+				partitions: [{ values: [{ referenceValue: `${ROOT}/col/${id}` }] }],
+				nextPageToken: options.pageToken ? null : 'more'
+			});
+		}
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+
+	return { firestore, pageTokens };
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('pagination', () => {
+	it('follows page tokens in listDocuments and listCollections', async () => {
+		const { firestore, pageTokens } = createFirestoreWithStubbedRest();
+
+		const refs = await firestore.collection('col').listDocuments();
+		const rootCollections = await firestore.listCollections();
+		const subcollections = await firestore.doc('col/a').listCollections();
+
+		expect(refs.map((ref) => ref.path)).toEqual(['col/a', 'col/b', 'col/c']);
+		expect(rootCollections.map((ref) => ref.id)).toEqual(['first', 'second']);
+		expect(subcollections.map((ref) => ref.path)).toEqual(['col/a/first', 'col/a/second']);
+		expect(pageTokens).toEqual([
+			['listDocuments', undefined],
+			['listDocuments', 'next'],
+			['listCollectionIds', undefined],
+			['listCollectionIds', 'more'],
+			['listCollectionIds', undefined],
+			['listCollectionIds', 'more']
+		]);
+	});
+
+	it('yields listDocuments pages that can be resumed from a page token', async () => {
+		const { firestore } = createFirestoreWithStubbedRest();
+		const col = firestore.collection('col');
+
+		const pages = [];
+		for await (const page of col.listDocumentsIterator({ pageSize: 2 })) {
+			pages.push(page);
+			break;
+		}
+		expect(pages[0]?.documents.map((ref) => ref.id)).toEqual(['a', 'b']);
+		expect(pages[0]?.nextPageToken).toBe('next');
+
+		const resumed = [];
+		for await (const page of col.listDocumentsIterator({ pageToken: 'next' })) {
+			resumed.push(page);
+		}
+		expect(resumed).toHaveLength(1);
+		expect(resumed[0]?.documents.map((ref) => ref.id)).toEqual(['c']);
+		expect(resumed[0]?.nextPageToken).toBeNull();
+	});
+
+	it('sorts partition split points gathered from several pages', async () => {
+		const { firestore } = createFirestoreWithStubbedRest();
+
+		const partitions = [];
+		for await (const partition of firestore.collection('col').getPartitions(3)) {
+			partitions.push(partition);
+		}
+
+		expect(
+			partitions.map((partition) => (partition.endBefore?.[0] as DocumentReference | undefined)?.id)
+		).toEqual(['a', 'b', undefined]);
+	});
+});
+
+describe('listDocuments showMissing', () => {
+	it('requests names only and includes missing parent documents by default', async () => {
+		const app = initializeApp({
+			credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+			projectId: 'p'
+		});
+		const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+		const urls: URL[] = [];
+		const rest = new FirestoreRestClient({
+			projectId: 'p',
+			baseUrl: 'http://127.0.0.1:9999',
+			fetch: (input) => {
+				urls.push(new URL(input as string));
+				const body = {
+					documents: [
+						{ name: `${ROOT}/tenants/present`, createTime: '2026-02-05T00:00:00Z' },
+						{ name: `${ROOT}/tenants/missing` }
+					]
+				};
+				return Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+			}
+		});
+		(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () => rest;
+
+		const refs = await firestore.collection('tenants').listDocuments();
+
+		expect(refs.map((ref) => ref.id)).toEqual(['present', 'missing']);
+		expect(urls[0]?.searchParams.get('showMissing')).toBe('true');
+		expect(urls[0]?.searchParams.getAll('mask.fieldPaths')).toEqual(['__name__']);
+
+		await firestore.collection('tenants').listDocuments({ showMissing: false });
+		expect(urls[1]?.searchParams.has('showMissing')).toBe(false);
+	});
+});
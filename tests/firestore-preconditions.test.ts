@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { Firestore } from '../src/firestore/firestore.js';
+import { Timestamp } from '../src/firestore/timestamp.js';
+
+function createFirestoreWithStubbedRest() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const writes: unknown[] = [];
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+		commit: (options: { writes: unknown[] }) => {
+			writes.push(...options.writes);
+			return Promise.resolve({
+				commitTime: '2026-02-05T00:00:00Z',
+				writeResults: options.writes.map(() => ({ updateTime: '2026-02-05T00:00:00Z' }))
+			});
+		},
+		batchWrite: (options: { writes: unknown[] }) => {
+			writes.push(...options.writes);
+			return Promise.resolve({
+				writeResults: options.writes.map(() => ({ updateTime: '2026-02-05T00:00:00Z' })),
+				status: options.writes.map(() => ({ code: 0 }))
+			});
+		}
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+
+	return { firestore, writes };
+}
+
+const LAST_UPDATE_TIME = new Timestamp(1_770_000_000, 123_456_789);
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('write preconditions', () => {
+	it('encodes lastUpdateTime on update() and delete()', async () => {
+		const { firestore, writes } = createFirestoreWithStubbedRest();
+		const ref = firestore.doc('col/a');
+
+		await ref.update({ n: 1 }, { lastUpdateTime: LAST_UPDATE_TIME });
+		await ref.update('n', 2, 'm', 3, { lastUpdateTime: LAST_UPDATE_TIME });
+		await ref.delete({ lastUpdateTime: LAST_UPDATE_TIME });
+		await ref.delete({ exists: true });
+		await ref.delete();
+
+		const updateTime = '2026-02-02T02:40:00.123456789Z';
+		expect(writes).toMatchObject([
+			{ update: { fields: { n: { integerValue: '1' } } }, currentDocument: { updateTime } },
+			{ updateMask: { fieldPaths: ['n', 'm'] }, currentDocument: { updateTime } },
+			{ delete: 'projects/p/databases/(default)/documents/col/a', currentDocument: { updateTime } },
+			{ currentDocument: { exists: true } },
+			{ delete: 'projects/p/databases/(default)/documents/col/a' }
+		]);
+		expect(writes[4]).not.toHaveProperty('currentDocument');
+	});
+
+	it('accepts preconditions in batches, transactions and bulk writers', async () => {
+		const { firestore, writes } = createFirestoreWithStubbedRest();
+		const ref = firestore.doc('col/a');
+
+		await firestore
+			.batch()
+			.update(ref, { n: 1 }, { lastUpdateTime: LAST_UPDATE_TIME })
+			.delete(ref, { exists: false })
+			.commit();
+
+		const bulkWriter = firestore.bulkWriter();
+		void bulkWriter.update(ref, 'n', 1, { lastUpdateTime: LAST_UPDATE_TIME });
+		await bulkWriter.close();
+
+		expect(writes.map((write) => (write as { currentDocument?: unknown }).currentDocument)).toEqual(
+			[
+				{ updateTime: '2026-02-02T02:40:00.123456789Z' },
+				{ exists: false },
+				{ updateTime: '2026-02-02T02:40:00.123456789Z' }
+			]
+		);
+	});
+
+	it('rejects invalid preconditions', async () => {
+		const { firestore, writes } = createFirestoreWithStubbedRest();
+		const ref = firestore.doc('col/a');
+
+		await expect(ref.update({ n: 1 }, { exists: false })).rejects.toThrow(/exists: false/);
+		await expect(ref.delete({ exists: true, lastUpdateTime: LAST_UPDATE_TIME })).rejects.toThrow(
+			/not both/
+		);
+		expect(() => firestore.batch().update(ref, 'n', 1, 'm')).toThrow(/field\/value pairs/);
+		expect(writes).toEqual([]);
+	});
+});
@@ -8,8 +8,10 @@ vi.mock('../src/firestore/listen/listen.js', async () => {
 	);
 	return {
 		...actual,
-		listenToQuery: vi.fn((options: { onMessage: (message: unknown) => void }) => {
-			triggerQueryMessage = options.onMessage;
+		listenToQuery: vi.fn((options: { onMessage: (message: unknown, targetId: number) => void }) => {
+			triggerQueryMessage = (message) => {
+				options.onMessage(message, 1);
+			};
 			return Promise.resolve(() => {
 				triggerQueryMessage = null;
 			});
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { Firestore } from '../src/firestore/firestore.js';
+import { FirestoreRestClient } from '../src/firestore/rest/client.js';
+import { parseJsonArrayStream } from '../src/firestore/rest/json-stream.js';
+
+function streamOf(chunks: string[], onCancel?: () => void): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	const bytes = chunks.map((chunk) => encoder.encode(chunk));
+	return new ReadableStream<Uint8Array>({
+		pull(controller) {
+			const next = bytes.shift();
+			if (next) {
+				controller.enqueue(next);
+			} else {
+				controller.close();
+			}
+		},
+		cancel() {
+			onCancel?.();
+		}
+	});
+}
+
+function runQueryElement(id: string, n: number): string {
+	return JSON.stringify({
+		document: {
+			name: `projects/p/databases/(default)/documents/col/${id}`,
+			fields: { n: { integerValue: String(n) } }
+		},
+		readTime: '2026-02-05T00:00:00Z'
+	});
+}
+
+function createFirestoreWithStubbedFetch(chunks: string[]) {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const state = { cancelled: false, signal: null as AbortSignal | null, bodies: [] as unknown[] };
+	const rest = new FirestoreRestClient({
+		projectId: 'p',
+		baseUrl: 'http://127.0.0.1:9999',
+		fetch: (_input, init) => {
+			state.signal = init?.signal ?? null;
+			state.bodies.push(JSON.parse(init?.body as string));
+			const body = streamOf(chunks, () => {
+				state.cancelled = true;
+			});
+			return Promise.resolve(new Response(body, { status: 200 }));
+		}
+	});
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () => rest;
+
+	return { firestore, state };
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('parseJsonArrayStream', () => {
+	it('yields elements split across arbitrary chunk boundaries', async () => {
+		const text = JSON.stringify([{ a: 'x}"{]' }, { b: [1, { c: 'é' }] }, {}]);
+		const chunks = Array.from(text, (char) => char);
+		const elements: unknown[] = [];
+		for await (const element of parseJsonArrayStream(streamOf(chunks))) {
+			elements.push(element);
+		}
+		expect(elements).toEqual([{ a: 'x}"{]' }, { b: [1, { c: 'é' }] }, {}]);
+	});
+
+	it('rejects truncated payloads', async () => {
+		const elements: unknown[] = [];
+		await expect(async () => {
+			for await (const element of parseJsonArrayStream(streamOf(['[{"a":1},{"b"']))) {
+				elements.push(element);
+			}
+		}).rejects.toThrow(/Unexpected end/);
+		expect(elements).toEqual([{ a: 1 }]);
+	});
+});
+
+describe('Query.stream', () => {
+	it('yields documents incrementally and aborts the fetch on early exit', async () => {
+		const { firestore, state } = createFirestoreWithStubbedFetch([
+			'[',
+			runQueryElement('a', 1),
+			',',
+			runQueryElement('b', 2),
+			',',
+			runQueryElement('c', 3),
+			']'
+		]);
+
+		const ids: string[] = [];
+		for await (const doc of firestore.collection('col').stream()) {
+			ids.push(doc.id);
+			if (doc.get('n') === 2) {
+				break;
+			}
+		}
+
+		expect(ids).toEqual(['a', 'b']);
+		expect(state.cancelled).toBe(true);
+		expect(state.signal?.aborted).toBe(true);
+	});
+
+	it('keeps limitToLast ordering', async () => {
+		const { firestore, state } = createFirestoreWithStubbedFetch([
+			`[${runQueryElement('c', 3)},${runQueryElement('b', 2)}]`
+		]);
+
+		const ids: string[] = [];
+		for await (const doc of firestore.collection('col').orderBy('n').limitToLast(2).stream()) {
+			ids.push(doc.id);
+		}
+
+		expect(ids).toEqual(['b', 'c']);
+		expect(state.bodies[0]).toMatchObject({
+			structuredQuery: {
+				orderBy: [
+					{ field: { fieldPath: 'n' }, direction: 'DESCENDING' },
+					{ field: { fieldPath: '__name__' }, direction: 'DESCENDING' }
+				],
+				limit: 2
+			}
+		});
+	});
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { RateLimiter } from '../src/firestore/rate-limiter.js';
+
+function createLimiter(options: { initialCapacity: number; maximumCapacity: number }) {
+	const clock = { now: 0 };
+	const limiter = new RateLimiter({
+		...options,
+		multiplier: 1.5,
+		multiplierMillis: 5 * 60 * 1000,
+		now: () => clock.now
+	});
+	return { clock, limiter };
+}
+
+describe('RateLimiter', () => {
+	it('spends and refills tokens at the current capacity', () => {
+		const { clock, limiter } = createLimiter({ initialCapacity: 500, maximumCapacity: 10_000 });
+
+		expect(limiter.tryMakeRequest(300)).toBe(true);
+		expect(limiter.tryMakeRequest(300)).toBe(false);
+		expect(limiter.getNextRequestDelayMs(300)).toBe(200);
+		expect(limiter.getNextRequestDelayMs(501)).toBe(-1);
+
+		clock.now = 200;
+		expect(limiter.tryMakeRequest(300)).toBe(true);
+		expect(limiter.tryMakeRequest(1)).toBe(false);
+	});
+
+	it('ramps up by 50% every five minutes up to the maximum', () => {
+		const { clock, limiter } = createLimiter({ initialCapacity: 500, maximumCapacity: 1000 });
+
+		// Time spent idle before the first request doesn't count towards the ramp-up.
+		clock.now = 10 * 60 * 1000;
+		expect(limiter.calculateCapacity()).toBe(500);
+		expect(limiter.tryMakeRequest(1)).toBe(true);
+		clock.now = 15 * 60 * 1000 - 1;
+		expect(limiter.calculateCapacity()).toBe(500);
+		clock.now = 15 * 60 * 1000;
+		expect(limiter.calculateCapacity()).toBe(750);
+		clock.now = 20 * 60 * 1000;
+		expect(limiter.calculateCapacity()).toBe(1000);
+		clock.now = 60 * 60 * 1000;
+		expect(limiter.calculateCapacity()).toBe(1000);
+		expect(limiter.tryMakeRequest(1000)).toBe(true);
+	});
+});
@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { FirestoreError } from '../src/firestore/errors.js';
+import { Firestore } from '../src/firestore/firestore.js';
+import { FirestoreRestClient } from '../src/firestore/rest/client.js';
+import { Timestamp } from '../src/firestore/timestamp.js';
+
+const DOC = {
+	name: 'projects/p/databases/(default)/documents/col/a',
+	fields: { n: { integerValue: '1' } }
+};
+
+function createFirestoreWithStubbedRest() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const calls: Array<{ method: string; readTime?: string; transaction?: string }> = [];
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+		getDocument: (options: { readTime?: string }) => {
+			calls.push({ method: 'getDocument', ...options });
+			return Promise.resolve(DOC);
+		},
+		batchGetDocuments: (options: { readTime?: string; transaction?: string }) => {
+			calls.push({ method: 'batchGetDocuments', ...options });
+			return Promise.resolve([{ found: DOC, readTime: options.readTime }]);
+		},
+		runQuery: (options: { readTime?: string }) => {
+			calls.push({ method: 'runQuery', ...options });
+			return Promise.resolve([{ document: DOC, readTime: options.readTime }]);
+		},
+		runAggregationQuery: (options: { readTime?: string }) => {
+			calls.push({ method: 'runAggregationQuery', ...options });
+			return Promise.resolve([
+				{
+					result: { aggregateFields: { count: { integerValue: '1' } } },
+					readTime: options.readTime
+				}
+			]);
+		},
+		listDocuments: (options: { readTime?: string }) => {
+			calls.push({ method: 'listDocuments', ...options });
+			return Promise.resolve({ documents: [DOC], nextPageToken: null });
+		},
+		beginTransaction: () => {
+			calls.push({ method: 'beginTransaction' });
+			return Promise.resolve('tx-1');
+		}
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+
+	return { firestore, calls };
+}
+
+function minutesAgo(minutes: number): Timestamp {
+	const millis = Date.now() - minutes * 60_000;
+	return Timestamp.fromMillis(Math.floor(millis / 60_000) * 60_000);
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('point-in-time reads', () => {
+	it('sends readTime on every read path', async () => {
+		const { firestore, calls } = createFirestoreWithStubbedRest();
+		const readTime = minutesAgo(90);
+		const encoded = readTime.toDate().toISOString();
+
+		const docSnap = await firestore.doc('col/a').get({ readTime });
+		await firestore.getAll(firestore.doc('col/a'), { readTime });
+		const querySnap = await firestore.collection('col').get({ readTime });
+		await firestore.collection('col').count().get({ readTime });
+		await firestore.collection('col').listDocuments({ readTime });
+
+		expect(calls.map((call) => [call.method, call.readTime])).toEqual([
+			['getDocument', encoded],
+			['batchGetDocuments', encoded],
+			['runQuery', encoded],
+			['runAggregationQuery', encoded],
+			['listDocuments', encoded]
+		]);
+		expect(docSnap.readTime?.isEqual(readTime)).toBe(true);
+		expect(querySnap.readTime?.isEqual(readTime)).toBe(true);
+	});
+
+	it('runs read-only transactions at a readTime without beginTransaction', async () => {
+		const { firestore, calls } = createFirestoreWithStubbedRest();
+		const readTime = minutesAgo(5);
+
+		const value = await firestore.runTransaction(
+			async (tx) => {
+				const snap = await tx.get(firestore.doc('col/a'));
+				expect(() => tx.set(firestore.doc('col/b'), {})).toThrow(/read-only/);
+				return snap.get('n');
+			},
+			{ readOnly: true, readTime }
+		);
+
+		expect(value).toBe(1);
+		expect(calls).toEqual([
+			{
+				method: 'batchGetDocuments',
+				documentNames: [DOC.name],
+				transaction: undefined,
+				readTime: readTime.toDate().toISOString()
+			}
+		]);
+	});
+
+	it('leaves readTime validation to the backend and reports its errors as FirestoreError', async () => {
+		const app = initializeApp({
+			credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+			projectId: 'p'
+		});
+		const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+		const urls: URL[] = [];
+		const rest = new FirestoreRestClient({
+			projectId: 'p',
+			baseUrl: 'http://127.0.0.1:9999',
+			fetch: (input) => {
+				urls.push(new URL(input as string));
+				return Promise.resolve(
+					Response.json(
+						{
+							error: {
+								code: 400,
+								message: 'The requested read time is too old.',
+								status: 'INVALID_ARGUMENT'
+							}
+						},
+						{ status: 400 }
+					)
+				);
+			}
+		});
+		(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () => rest;
+
+		// Older than any point-in-time window and not a whole minute: still sent as is.
+		const readTime = new Timestamp(minutesAgo(8 * 24 * 60).seconds + 1, 0);
+		const error = await firestore
+			.doc('col/a')
+			.get({ readTime })
+			.catch((caught: unknown) => caught);
+
+		expect(urls[0]?.searchParams.get('readTime')).toBe(readTime.toDate().toISOString());
+		expect(error).toBeInstanceOf(FirestoreError);
+		expect(error).toMatchObject({
+			code: 'invalid-argument',
+			apiStatus: 'INVALID_ARGUMENT',
+			httpStatus: 400,
+			method: 'getDocument'
+		});
+	});
+});
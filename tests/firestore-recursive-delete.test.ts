@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { FirestoreError } from '../src/firestore/errors.js';
+import { BulkWriterError, Firestore } from '../src/firestore/firestore.js';
+
+const ROOT = 'projects/p/databases/(default)/documents';
+
+function createFirestoreWithStubbedRest(options: { descendants: string[]; failPath?: string }) {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const queries: Array<{ parentResourceName: string; structuredQuery: Record<string, unknown> }> =
+		[];
+	const deleted: string[] = [];
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `${ROOT}/${path}`,
+		runQuery: (queryOptions: {
+			parentResourceName: string;
+			structuredQuery: Record<string, unknown>;
+		}) => {
+			queries.push(queryOptions);
+			const { limit, startAt } = queryOptions.structuredQuery as {
+				limit: number;
+				startAt?: { values: Array<{ referenceValue: string }> };
+			};
+			const after = startAt?.values[0]?.referenceValue;
+			const names = options.descendants
+				.map((path) => `${ROOT}/${path}`)
+				.filter((name) => !deleted.includes(name) && (!after || name > after))
+				.slice(0, limit);
+			return Promise.resolve(
+				names.map((name) => ({ document: { name }, readTime: '2026-02-05T00:00:00Z' }))
+			);
+		},
+		batchWrite: (writeOptions: { writes: Array<{ delete: string }> }) => {
+			const status = writeOptions.writes.map((write) => {
+				if (options.failPath && write.delete === `${ROOT}/${options.failPath}`) {
+					return { code: 7, message: 'denied' };
+				}
+				deleted.push(write.delete);
+				return { code: 0 };
+			});
+			return Promise.resolve({
+				writeResults: writeOptions.writes.map(() => ({ updateTime: '2026-02-05T00:00:00Z' })),
+				status
+			});
+		}
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+
+	return { firestore, queries, deleted };
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('Firestore.recursiveDelete', () => {
+	it('deletes all descendants, including under missing parents, and then the document', async () => {
+		const { firestore, queries, deleted } = createFirestoreWithStubbedRest({
+			descendants: ['users/a/posts/1', 'users/a/posts/1/comments/x', 'users/a/phantom/p/deep/d']
+		});
+
+		const result = await firestore.recursiveDelete(firestore.doc('users/a'));
+
+		expect(result).toEqual({ deletedCount: 4, done: true });
+		expect(deleted.at(-1)).toBe(`${ROOT}/users/a`);
+		expect(deleted).toHaveLength(4);
+		expect(queries[0]).toEqual({
+			parentResourceName: `${ROOT}/users/a`,
+			structuredQuery: {
+				from: [{ allDescendants: true }],
+				select: { fields: [{ fieldPath: '__name__' }] },
+				orderBy: [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }],
+				limit: 1000
+			}
+		});
+	});
+
+	it('bounds collection deletes to the collection and runs in chunks', async () => {
+		const { firestore, queries, deleted } = createFirestoreWithStubbedRest({
+			descendants: ['users/a', 'users/a/posts/1', 'users/b']
+		});
+		const users = firestore.collection('users');
+		const progress: string[] = [];
+		const bulkWriter = firestore.bulkWriter();
+		bulkWriter.onWriteResult((ref) => progress.push(ref.path));
+
+		const first = await firestore.recursiveDelete(users, bulkWriter, { maxDocuments: 2 });
+		expect(first).toEqual({ deletedCount: 2, done: false });
+		expect(queries[0]?.parentResourceName).toBe(ROOT);
+		expect(queries[0]?.structuredQuery.limit).toBe(2);
+		expect(queries[0]?.structuredQuery.where).toEqual({
+			compositeFilter: {
+				op: 'AND',
+				filters: [
+					{
+						fieldFilter: {
+							field: { fieldPath: '__name__' },
+							op: 'GREATER_THAN_OR_EQUAL',
+							value: { referenceValue: `${ROOT}/users/\0` }
+						}
+					},
+					{
+						fieldFilter: {
+							field: { fieldPath: '__name__' },
+							op: 'LESS_THAN',
+							value: { referenceValue: `${ROOT}/users\0/\0` }
+						}
+					}
+				]
+			}
+		});
+
+		const second = await firestore.recursiveDelete(users, bulkWriter, { maxDocuments: 2 });
+		expect(second).toEqual({ deletedCount: 1, done: true });
+		expect(progress).toEqual(['users/a', 'users/a/posts/1', 'users/b']);
+		expect(deleted).toHaveLength(3);
+	});
+
+	it('aggregates failed deletes into one error', async () => {
+		const { firestore } = createFirestoreWithStubbedRest({
+			descendants: ['users/a/posts/1', 'users/a/posts/2'],
+			failPath: 'users/a/posts/2'
+		});
+		const bulkWriter = firestore.bulkWriter();
+		bulkWriter.onWriteError(() => false);
+
+		const error = await firestore
+			.recursiveDelete(firestore.doc('users/a'), bulkWriter)
+			.catch((caught: unknown) => caught);
+		expect(error).toBeInstanceOf(FirestoreError);
+		expect(error).toMatchObject({
+			message: '1 delete failed. The last delete failed with: denied',
+			code: 'permission-denied',
+			grpcStatus: 7,
+			method: 'batchWrite'
+		});
+		expect((error as FirestoreError).cause).toBeInstanceOf(BulkWriterError);
+	});
+});
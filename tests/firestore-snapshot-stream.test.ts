@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type FakeChannel = {
+	options: { onMessage: (message: unknown) => void };
+	closed: boolean;
+};
+
+const channels: FakeChannel[] = [];
+
+vi.mock('../src/firestore/listen/webchannel.js', () => ({
+	openWebChannel: vi.fn((options: FakeChannel['options']) => {
+		const channel: FakeChannel = { options, closed: false };
+		channels.push(channel);
+		return {
+			send: () => undefined,
+			close: () => {
+				channel.closed = true;
+			}
+		};
+	})
+}));
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { snapshotEventStream } from '../src/firestore/event-stream.js';
+import { Firestore, type QuerySnapshot } from '../src/firestore/firestore.js';
+
+function createFirestore() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	return new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+}
+
+function docChange(id: string, fields: Record<string, unknown>, updateTime: string) {
+	return {
+		documentChange: {
+			document: {
+				name: `projects/p/databases/(default)/documents/col/${id}`,
+				fields,
+				updateTime
+			},
+			targetIds: [1]
+		}
+	};
+}
+
+const CURRENT = { targetChange: { targetChangeType: 'CURRENT', targetIds: [1] } };
+
+async function waitForChannel(): Promise<FakeChannel> {
+	await vi.waitFor(() => {
+		expect(channels).toHaveLength(1);
+	});
+	return channels[0];
+}
+
+beforeEach(async () => {
+	channels.length = 0;
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('Query.snapshots()', () => {
+	it('coalesces snapshots for slow consumers and unsubscribes on break', async () => {
+		const firestore = createFirestore();
+		const iterator = firestore.collection('col').snapshots();
+
+		const first = iterator.next();
+		const channel = await waitForChannel();
+		channel.options.onMessage(docChange('a', {}, '2026-02-05T00:00:00Z'));
+		channel.options.onMessage(CURRENT);
+		const firstResult = await first;
+		expect(firstResult.done).toBe(false);
+		expect((firstResult.value as QuerySnapshot).docs.map((doc) => doc.id)).toEqual(['a']);
+
+		// Two snapshots arrive while the consumer is busy; only the latest is kept.
+		channel.options.onMessage(docChange('b', {}, '2026-02-05T00:00:01Z'));
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		channel.options.onMessage(docChange('c', {}, '2026-02-05T00:00:02Z'));
+		await new Promise((resolve) => setTimeout(resolve, 5));
+
+		for await (const snapshot of iterator) {
+			expect(snapshot.docs.map((doc) => doc.id)).toEqual(['a', 'b', 'c']);
+			expect(snapshot.docChanges().map((change) => [change.type, change.doc.id])).toEqual([
+				['added', 'b'],
+				['added', 'c']
+			]);
+			break;
+		}
+
+		expect(channel.closed).toBe(true);
+		await expect(iterator.next()).resolves.toEqual({ done: true, value: undefined });
+	});
+});
+
+describe('snapshotEventStream()', () => {
+	it('streams document snapshots as server-sent events', async () => {
+		const firestore = createFirestore();
+		const stream = snapshotEventStream(firestore.doc('col/a'));
+		const reader = stream.getReader();
+
+		const channel = await waitForChannel();
+		channel.options.onMessage(
+			docChange(
+				'a',
+				{ n: { integerValue: '1' }, at: { timestampValue: '2026-02-05T00:00:00Z' } },
+				'2026-02-05T00:00:01Z'
+			)
+		);
+		channel.options.onMessage({
+			targetChange: {
+				targetChangeType: 'CURRENT',
+				targetIds: [1],
+				readTime: '2026-02-05T00:00:02Z'
+			}
+		});
+
+		const { value } = await reader.read();
+		const text = new TextDecoder().decode(value);
+		expect(text.startsWith('event: snapshot\ndata: ')).toBe(true);
+		expect(text.endsWith('\n\n')).toBe(true);
+		expect(JSON.parse(text.slice('event: snapshot\ndata: '.length))).toEqual({
+			readTime: '2026-02-05T00:00:02.000Z',
+			fromCache: false,
+			id: 'a',
+			path: 'col/a',
+			exists: true,
+			updateTime: '2026-02-05T00:00:01.000Z',
+			data: { n: 1, at: '2026-02-05T00:00:00.000Z' }
+		});
+
+		await reader.cancel();
+		expect(channel.closed).toBe(true);
+	});
+});
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { Firestore } from '../src/firestore/firestore.js';
+import { FirestoreApiError } from '../src/firestore/rest/client.js';
+
+function createFirestoreWithStubbedRest(options: { abortFirstCommit?: boolean } = {}) {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const calls: Array<[string, unknown]> = [];
+	let nextId = 0;
+	let commits = 0;
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+		beginTransaction: (beginOptions: unknown) => {
+			calls.push(['beginTransaction', beginOptions]);
+			nextId += 1;
+			return Promise.resolve(`tx-${String(nextId)}`);
+		},
+		batchGetDocuments: (getOptions: {
+			documentNames: string[];
+			transaction?: string;
+			mask?: string[];
+		}) => {
+			calls.push(['batchGetDocuments', getOptions.transaction]);
+			if (getOptions.mask) {
+				calls.push(['mask', getOptions.mask]);
+			}
+			return Promise.resolve(getOptions.documentNames.map((name) => ({ missing: name })));
+		},
+		runQuery: (queryOptions: { transaction?: string }) => {
+			calls.push(['runQuery', queryOptions.transaction]);
+			return Promise.resolve([
+				{
+					document: {
+						name: 'projects/p/databases/(default)/documents/col/a',
+						fields: { stock: { integerValue: '4' } }
+					},
+					readTime: '2026-02-05T00:00:00Z'
+				}
+			]);
+		},
+		runAggregationQuery: (queryOptions: { transaction?: string }) => {
+			calls.push(['runAggregationQuery', queryOptions.transaction]);
+			return Promise.resolve([
+				{
+					result: { aggregateFields: { count: { integerValue: '1' } } },
+					readTime: '2026-02-05T00:00:00Z'
+				}
+			]);
+		},
+		commit: (commitOptions: { transaction?: string }) => {
+			calls.push(['commit', commitOptions.transaction]);
+			commits += 1;
+			if (options.abortFirstCommit && commits === 1) {
+				return Promise.reject(
+					new FirestoreApiError('aborted', { httpStatus: 409, apiStatus: 'ABORTED' })
+				);
+			}
+			return Promise.resolve({ commitTime: '2026-02-05T00:00:00Z' });
+		},
+		rollback: (rollbackOptions: { transaction: string }) => {
+			calls.push(['rollback', rollbackOptions.transaction]);
+			return Promise.resolve();
+		}
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+
+	return { firestore, calls };
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('runTransaction', () => {
+	it('begins read-only transactions with readOnly options', async () => {
+		const { firestore, calls } = createFirestoreWithStubbedRest();
+
+		const exists = await firestore.runTransaction(
+			async (tx) => (await tx.get(firestore.doc('col/a'))).exists,
+			{ readOnly: true }
+		);
+
+		expect(exists).toBe(false);
+		expect(calls).toEqual([
+			['beginTransaction', { readOnly: {} }],
+			['batchGetDocuments', 'tx-1']
+		]);
+	});
+
+	it('rolls back when the update function throws', async () => {
+		const { firestore, calls } = createFirestoreWithStubbedRest();
+
+		await expect(firestore.runTransaction(() => Promise.reject(new Error('boom')))).rejects.toThrow(
+			'boom'
+		);
+
+		expect(calls).toEqual([
+			['beginTransaction', { readWrite: {} }],
+			['rollback', 'tx-1']
+		]);
+	});
+
+	it('retries contention with retryTransaction set to the previous id', async () => {
+		const { firestore, calls } = createFirestoreWithStubbedRest({ abortFirstCommit: true });
+
+		await firestore.runTransaction((tx) => {
+			tx.set(firestore.doc('col/a'), { n: 1 });
+			return Promise.resolve();
+		});
+
+		expect(calls).toEqual([
+			['beginTransaction', { readWrite: {} }],
+			['commit', 'tx-1'],
+			['rollback', 'tx-1'],
+			['beginTransaction', { readWrite: { retryTransaction: 'tx-1' } }],
+			['commit', 'tx-2']
+		]);
+	});
+
+	it('reads documents, queries and aggregations with the transaction id', async () => {
+		const { firestore, calls } = createFirestoreWithStubbedRest();
+		const col = firestore.collection('col');
+
+		await firestore.runTransaction(async (tx) => {
+			const [a, b] = await tx.getAll(col.doc('a'), col.doc('b'), { fieldMask: ['stock'] });
+			const query = await tx.get(col.where('stock', '>', 0));
+			const count = await tx.get(col.count());
+			expect([a.exists, b.exists]).toEqual([false, false]);
+			expect(query.docs.map((doc) => doc.get('stock'))).toEqual([4]);
+			expect(count.data()).toEqual({ count: 1 });
+			tx.update(col.doc('a'), { stock: 3 });
+			await expect(tx.get(col.doc('a'))).rejects.toThrow(/reads to be performed before writes/);
+		});
+
+		expect(calls).toEqual([
+			['beginTransaction', { readWrite: {} }],
+			['batchGetDocuments', 'tx-1'],
+			['mask', ['stock']],
+			['runQuery', 'tx-1'],
+			['runAggregationQuery', 'tx-1'],
+			['commit', 'tx-1']
+		]);
+	});
+});
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { FieldValue } from '../src/firestore/field-value.js';
+import { Firestore } from '../src/firestore/firestore.js';
+import { Timestamp } from '../src/firestore/timestamp.js';
+
+function createFirestoreWithStubbedRest() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+
+	const transformResultsFor = (write: unknown) =>
+		((write as { updateTransforms?: Array<{ increment?: unknown }> }).updateTransforms ?? []).map(
+			(transform) =>
+				transform.increment
+					? { integerValue: '42' }
+					: { timestampValue: '2026-02-05T00:00:00.250Z' }
+		);
+	const commits: unknown[] = [];
+	const restStub = {
+		databaseResourceName: () => 'projects/p/databases/(default)',
+		documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+		beginTransaction: () => Promise.resolve('tx-1'),
+		commit: (options: { writes: unknown[] }) => {
+			commits.push(options);
+			return Promise.resolve({
+				commitTime: '2026-02-05T00:00:00Z',
+				writeResults: options.writes.map((write) => ({
+					updateTime: '2026-02-05T00:00:00Z',
+					transformResults: transformResultsFor(write)
+				}))
+			});
+		},
+		batchWrite: (options: { writes: unknown[] }) =>
+			Promise.resolve({
+				writeResults: options.writes.map((write) => ({
+					updateTime: '2026-02-05T00:00:00Z',
+					transformResults: transformResultsFor(write)
+				})),
+				status: options.writes.map(() => ({ code: 0 }))
+			})
+	};
+	(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () =>
+		restStub as unknown;
+
+	return { firestore, commits };
+}
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('WriteResult.transformResults', () => {
+	it('decodes transform results keyed by field path', async () => {
+		const { firestore } = createFirestoreWithStubbedRest();
+		const ref = firestore.doc('counters/a');
+
+		const result = await ref.update({
+			'stats.count': FieldValue.increment(1),
+			updatedAt: FieldValue.serverTimestamp()
+		});
+
+		expect(result.transformResults['stats.count']).toBe(42);
+		expect(result.transformResults.updatedAt).toBeInstanceOf(Timestamp);
+		expect((result.transformResults.updatedAt as Timestamp).toMillis()).toBe(
+			Date.parse('2026-02-05T00:00:00.250Z')
+		);
+
+		const plain = await ref.set({ n: 1 });
+		expect(plain.transformResults).toEqual({});
+	});
+
+	it('returns transform results from batches, transactions and bulk writers', async () => {
+		const { firestore, commits } = createFirestoreWithStubbedRest();
+		const ref = firestore.doc('counters/a');
+
+		const [batchResult] = await firestore
+			.batch()
+			.set(ref, { n: FieldValue.increment(1) }, { merge: true })
+			.commit();
+		expect(batchResult.transformResults).toEqual({ n: 42 });
+
+		commits.length = 0;
+		const [txResult] = await firestore.runTransaction((tx) => {
+			tx.update(ref, { n: FieldValue.increment(1) });
+			return tx.commit();
+		});
+		expect(txResult.transformResults).toEqual({ n: 42 });
+		// `runTransaction()` reuses the commit made by the update function.
+		expect(commits).toHaveLength(1);
+
+		const bulkWriter = firestore.bulkWriter();
+		const bulkResult = bulkWriter.update(ref, 'n', FieldValue.increment(1));
+		await bulkWriter.close();
+		expect((await bulkResult).transformResults).toEqual({ n: 42 });
+	});
+});
@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { FieldValue } from '../src/firestore/field-value.js';
+import { Firestore, VectorQuery } from '../src/firestore/firestore.js';
+import { getDocs, vector } from '../src/firestore/modular.js';
+import { fromFirestoreValue, toFirestoreValue } from '../src/firestore/rest/value.js';
+import { VectorValue } from '../src/firestore/vector-value.js';
+
+const ENCODED_VECTOR = {
+	mapValue: {
+		fields: {
+			__type__: { stringValue: '__vector__' },
+			value: { arrayValue: { values: [{ doubleValue: 1 }, { doubleValue: 2.5 }] } }
+		}
+	}
+};
+
+beforeEach(async () => {
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+describe('VectorValue', () => {
+	it('encodes as a __vector__ map and decodes back', () => {
+		const value = FieldValue.vector([1, 2.5]);
+		expect(value).toBeInstanceOf(VectorValue);
+		expect(toFirestoreValue(value)).toEqual(ENCODED_VECTOR);
+
+		const decoded = fromFirestoreValue(ENCODED_VECTOR);
+		expect(decoded).toBeInstanceOf(VectorValue);
+		expect((decoded as VectorValue).isEqual(vector([1, 2.5]))).toBe(true);
+		expect((decoded as VectorValue).toArray()).toEqual([1, 2.5]);
+	});
+
+	it('encodes findNearest into the structured query', async () => {
+		const app = initializeApp({
+			credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+			projectId: 'p'
+		});
+		const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+		const queries: unknown[] = [];
+		(firestore as unknown as { _getRestClient: () => unknown })._getRestClient = () => ({
+			databaseResourceName: () => 'projects/p/databases/(default)',
+			documentResourceName: (path: string) => `projects/p/databases/(default)/documents/${path}`,
+			runQuery: (options: { structuredQuery: unknown }) => {
+				queries.push(options.structuredQuery);
+				return Promise.resolve([
+					{
+						document: {
+							name: 'projects/p/databases/(default)/documents/docs/a',
+							fields: { embedding: ENCODED_VECTOR, distance: { doubleValue: 0.25 } }
+						},
+						readTime: '2026-02-05T00:00:00Z'
+					}
+				]);
+			}
+		});
+
+		const query = firestore
+			.collection('docs')
+			.where('category', '==', 'news')
+			.findNearest({
+				vectorField: 'embedding',
+				queryVector: [1, 2.5],
+				limit: 5,
+				distanceMeasure: 'COSINE',
+				distanceResultField: 'distance',
+				distanceThreshold: 0.5
+			});
+		const snapshot = await getDocs(query);
+		expect(() => snapshot.query.onSnapshot(() => undefined)).toThrow(
+			'onSnapshot() cannot be combined with findNearest().'
+		);
+
+		expect(queries[0]).toMatchObject({
+			where: { fieldFilter: { field: { fieldPath: 'category' }, op: 'EQUAL' } },
+			findNearest: {
+				vectorField: { fieldPath: 'embedding' },
+				queryVector: ENCODED_VECTOR,
+				distanceMeasure: 'COSINE',
+				limit: 5,
+				distanceResultField: 'distance',
+				distanceThreshold: 0.5
+			}
+		});
+		expect(snapshot.docs[0]?.get('embedding')).toBeInstanceOf(VectorValue);
+		expect(snapshot.docs[0]?.get('distance')).toBe(0.25);
+	});
+
+	it('validates findNearest options', () => {
+		const app = initializeApp({
+			credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+			projectId: 'p'
+		});
+		const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+		const col = firestore.collection('docs');
+		expect(() =>
+			col.findNearest({
+				vectorField: 'embedding',
+				queryVector: [],
+				limit: 5,
+				distanceMeasure: 'EUCLIDEAN'
+			})
+		).toThrow(/non-empty/);
+		expect(() =>
+			col.findNearest({
+				vectorField: 'embedding',
+				queryVector: [1],
+				limit: 1001,
+				distanceMeasure: 'EUCLIDEAN'
+			})
+		).toThrow();
+	});
+
+	it('returns a read-only VectorQuery and rejects cursors, limitToLast and offset', () => {
+		const app = initializeApp({
+			credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+			projectId: 'p'
+		});
+		const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+		const col = firestore.collection('docs');
+		const options = {
+			vectorField: 'embedding',
+			queryVector: [1, 2],
+			limit: 5,
+			distanceMeasure: 'EUCLIDEAN' as const
+		};
+		const nearest = col.findNearest(options);
+
+		// Vector queries can only be read, like the Admin SDK's `VectorQuery`.
+		expect(nearest).toBeInstanceOf(VectorQuery);
+		expect(nearest.query).toBe(col);
+		for (const method of ['onSnapshot', 'snapshots', 'stream', 'startAt', 'findNearest']) {
+			expect(method in nearest).toBe(false);
+		}
+
+		expect(() => col.orderBy('n').startAfter(1).findNearest(options)).toThrow(/startAt\(\)/);
+		expect(() => col.orderBy('n').limitToLast(1).findNearest(options)).toThrow(/limitToLast/);
+		expect(() => col.offset(1).findNearest(options)).toThrow(/offset/);
+		expect(() => col.where('n', '>', 1).limit(10).findNearest(options)).not.toThrow();
+	});
+});
@@ -0,0 +1,479 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type FakeChannel = {
+	options: {
+		initMessageHeaders: Record<string, string>;
+		onMessage: (message: unknown) => void;
+		onError: (error: unknown) => void;
+		onClose: () => void;
+	};
+	sent: unknown[];
+	closed: boolean;
+};
+
+const channels: FakeChannel[] = [];
+
+vi.mock('../src/firestore/listen/webchannel.js', () => ({
+	openWebChannel: vi.fn((options: FakeChannel['options']) => {
+		const channel: FakeChannel = { options, sent: [], closed: false };
+		channels.push(channel);
+		return {
+			send: (message: unknown) => {
+				channel.sent.push(message);
+			},
+			close: () => {
+				channel.closed = true;
+			}
+		};
+	})
+}));
+
+import { cert, deleteApp, getApps, initializeApp } from '../src/app/index.js';
+import { FirestoreError } from '../src/firestore/errors.js';
+import {
+	type DocumentSnapshot,
+	Firestore,
+	type QuerySnapshot
+} from '../src/firestore/firestore.js';
+
+function createFirestore() {
+	const app = initializeApp({
+		credential: cert({ projectId: 'p', clientEmail: 'e', privateKey: 'k' }),
+		projectId: 'p'
+	});
+	const firestore = new Firestore({ app, baseUrl: 'http://127.0.0.1:9999' });
+	let tokens = 0;
+	(firestore as unknown as { _getAccessToken: () => Promise<string> })._getAccessToken = () => {
+		tokens += 1;
+		return Promise.resolve(`token-${String(tokens)}`);
+	};
+	return firestore;
+}
+
+function docChange(id: string, updateTime: string, targetIds = [1]) {
+	return {
+		documentChange: {
+			document: {
+				name: `projects/p/databases/(default)/documents/col/${id}`,
+				fields: { id: { stringValue: id } },
+				updateTime
+			},
+			targetIds
+		}
+	};
+}
+
+beforeEach(async () => {
+	channels.length = 0;
+	vi.useFakeTimers();
+	vi.spyOn(Math, 'random').mockReturnValue(0.5);
+	await Promise.all(getApps().map((app) => deleteApp(app)));
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe('WatchStream', () => {
+	it('resumes query targets with the last resume token and a fresh access token', async () => {
+		const firestore = createFirestore();
+		const snapshots: QuerySnapshot[] = [];
+		const errors: unknown[] = [];
+		const unsubscribe = firestore.collection('col').onSnapshot(
+			(snap) => snapshots.push(snap),
+			(error) => errors.push(error)
+		);
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(channels).toHaveLength(1);
+		expect(channels[0].options.initMessageHeaders).toEqual({ Authorization: 'Bearer token-1' });
+		channels[0].options.onMessage(docChange('a', '2026-02-05T00:00:00Z'));
+		channels[0].options.onMessage({
+			targetChange: { targetChangeType: 'CURRENT', targetIds: [1] }
+		});
+		channels[0].options.onMessage({
+			targetChange: { targetChangeType: 'NO_CHANGE', targetIds: [], resumeToken: 'tok1' }
+		});
+		await vi.advanceTimersByTimeAsync(0);
+		expect(snapshots.map((snap) => snap.docs.map((doc) => doc.id))).toEqual([['a']]);
+
+		channels[0].options.onClose();
+		await vi.advanceTimersByTimeAsync(999);
+		expect(channels).toHaveLength(1);
+		await vi.advanceTimersByTimeAsync(1);
+
+		expect(channels).toHaveLength(2);
+		expect(channels[0].closed).toBe(true);
+		expect(channels[1].options.initMessageHeaders).toEqual({ Authorization: 'Bearer token-2' });
+		expect(channels[1].sent).toEqual([
+			{
+				database: 'projects/p/databases/(default)',
+				addTarget: expect.objectContaining({ targetId: 1, resumeToken: 'tok1' }) as unknown
+			}
+		]);
+
+		channels[1].options.onMessage({
+			targetChange: { targetChangeType: 'CURRENT', targetIds: [1] }
+		});
+		channels[1].options.onMessage({
+			targetChange: { targetChangeType: 'NO_CHANGE', targetIds: [], resumeToken: 'tok2' }
+		});
+		await vi.advanceTimersByTimeAsync(0);
+		expect(snapshots).toHaveLength(1);
+
+		channels[1].options.onMessage(docChange('b', '2026-02-05T00:00:01Z'));
+		channels[1].options.onMessage({
+			targetChange: { targetChangeType: 'NO_CHANGE', targetIds: [], resumeToken: 'tok3' }
+		});
+		await vi.advanceTimersByTimeAsync(0);
+		expect(snapshots).toHaveLength(2);
+		expect(snapshots[1].docs.map((doc) => doc.id)).toEqual(['a', 'b']);
+		expect(snapshots[1].docChanges().map((change) => [change.type, change.doc.id])).toEqual([
+			['added', 'b']
+		]);
+		expect(errors).toEqual([]);
+
+		unsubscribe();
+		expect(channels[1].closed).toBe(true);
+	});
+
+	it('reports a document deleted while a resumed listener was disconnected', async () => {
+		const firestore = createFirestore();
+		const snapshots: DocumentSnapshot[] = [];
+		firestore.doc('col/a').onSnapshot((snap) => snapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		channels[0].options.onMessage(docChange('a', '2026-02-05T00:00:00Z'));
+		channels[0].options.onMessage({
+			targetChange: { targetChangeType: 'CURRENT', targetIds: [1], resumeToken: 'tok1' }
+		});
+		channels[0].options.onClose();
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect(channels[1].sent).toMatchObject([{ addTarget: { resumeToken: 'tok1' } }]);
+		// The backend reports the missed deletion as an existence filter with no documents.
+		channels[1].options.onMessage({ filter: { targetId: 1, count: 0 } });
+		channels[1].options.onMessage({
+			targetChange: { targetChangeType: 'CURRENT', targetIds: [1], resumeToken: 'tok2' }
+		});
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(snapshots.map((snap) => snap.exists)).toEqual([true, false]);
+	});
+
+	it('backs off between failed attempts and stops on permanent errors', async () => {
+		const firestore = createFirestore();
+		const errors: unknown[] = [];
+		firestore.collection('col').onSnapshot(
+			() => undefined,
+			(error) => errors.push(error)
+		);
+		await vi.advanceTimersByTimeAsync(0);
+
+		channels[0].options.onError(new Error('network'));
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(channels).toHaveLength(2);
+
+		channels[1].options.onClose();
+		await vi.advanceTimersByTimeAsync(1499);
+		expect(channels).toHaveLength(2);
+		await vi.advanceTimersByTimeAsync(1);
+		expect(channels).toHaveLength(3);
+
+		channels[2].options.onMessage({
+			error: { status: 'PERMISSION_DENIED', message: 'denied' }
+		});
+		await vi.advanceTimersByTimeAsync(60_000);
+		expect(channels).toHaveLength(3);
+		expect(channels[2].closed).toBe(true);
+		expect(errors).toMatchObject([{ apiStatus: 'PERMISSION_DENIED', message: 'denied' }]);
+	});
+
+	it('fails listeners when the access token keeps failing', async () => {
+		const firestore = createFirestore();
+		let attempts = 0;
+		(firestore as unknown as { _getAccessToken: () => Promise<string> })._getAccessToken = () => {
+			attempts += 1;
+			return Promise.reject(new Error('Invalid private key'));
+		};
+		const errors: unknown[] = [];
+		firestore.doc('col/a').onSnapshot(
+			() => undefined,
+			(error) => errors.push(error)
+		);
+
+		await vi.advanceTimersByTimeAsync(1000 + 1500);
+		expect(attempts).toBe(3);
+		expect(errors).toMatchObject([
+			{
+				code: 'unauthenticated',
+				method: 'Listen',
+				message: 'Failed to get an access token for the Listen stream: Invalid private key'
+			}
+		]);
+		await vi.advanceTimersByTimeAsync(60_000);
+		expect(attempts).toBe(3);
+		expect(channels).toHaveLength(0);
+	});
+
+	it('fails listeners when the stream keeps rejecting the access token', async () => {
+		const firestore = createFirestore();
+		const errors: unknown[] = [];
+		firestore.doc('col/a').onSnapshot(
+			() => undefined,
+			(error) => errors.push(error)
+		);
+		await vi.advanceTimersByTimeAsync(0);
+
+		const unauthenticated = () =>
+			new FirestoreError('[webchannel] HTTP 401: Unauthorized', {
+				apiStatus: 'UNAUTHENTICATED',
+				httpStatus: 401
+			});
+		channels[0].options.onError(unauthenticated());
+		await vi.advanceTimersByTimeAsync(1000);
+		channels[1].options.onError(unauthenticated());
+		await vi.advanceTimersByTimeAsync(1500);
+		expect(errors).toEqual([]);
+		channels[2].options.onError(unauthenticated());
+		await vi.advanceTimersByTimeAsync(60_000);
+
+		expect(channels).toHaveLength(3);
+		expect(errors).toMatchObject([{ code: 'unauthenticated', httpStatus: 401 }]);
+	});
+
+	it('does not resubscribe listeners that failed permanently', async () => {
+		const firestore = createFirestore();
+		const failed: DocumentSnapshot[] = [];
+		const errors: unknown[] = [];
+		firestore.doc('col/a').onSnapshot(
+			(snap) => failed.push(snap),
+			(error) => errors.push(error)
+		);
+		await vi.advanceTimersByTimeAsync(0);
+		channels[0].options.onError(
+			new FirestoreError('[webchannel] HTTP 403: Forbidden', { apiStatus: 'PERMISSION_DENIED' })
+		);
+		expect(errors).toMatchObject([{ code: 'permission-denied' }]);
+
+		const snapshots: DocumentSnapshot[] = [];
+		firestore.doc('col/b').onSnapshot((snap) => snapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(channels).toHaveLength(2);
+		expect(channels[1].sent).toMatchObject([
+			{ addTarget: { documents: expect.anything() as unknown } }
+		]);
+		expect(channels[1].sent).toHaveLength(1);
+		const { targetId } = (channels[1].sent[0] as { addTarget: { targetId: number } }).addTarget;
+		channels[1].options.onMessage(docChange('a', '2026-02-05T00:00:00Z', [1]));
+		channels[1].options.onMessage(docChange('b', '2026-02-05T00:00:00Z', [targetId]));
+		channels[1].options.onMessage({
+			targetChange: { targetChangeType: 'CURRENT', targetIds: [1, targetId] }
+		});
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(snapshots.map((snap) => snap.id)).toEqual(['b']);
+		expect(failed).toEqual([]);
+	});
+
+	it('multiplexes listeners over one channel and routes messages by target id', async () => {
+		const firestore = createFirestore();
+		const querySnapshots: QuerySnapshot[] = [];
+		const docSnapshots: DocumentSnapshot[] = [];
+		const unsubscribeQuery = firestore
+			.collection('col')
+			.onSnapshot((snap) => querySnapshots.push(snap));
+		const unsubscribeDoc = firestore.doc('col/b').onSnapshot((snap) => docSnapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(channels).toHaveLength(1);
+		expect(channels[0].sent).toEqual([
+			{
+				database: 'projects/p/databases/(default)',
+				addTarget: expect.objectContaining({
+					targetId: 1,
+					query: expect.anything() as unknown
+				}) as unknown
+			},
+			{
+				database: 'projects/p/databases/(default)',
+				addTarget: {
+					targetId: 2,
+					documents: { documents: ['projects/p/databases/(default)/documents/col/b'] }
+				}
+			}
+		]);
+
+		const { onMessage } = channels[0].options;
+		onMessage(docChange('a', '2026-02-05T00:00:00Z', [1]));
+		onMessage(docChange('b', '2026-02-05T00:00:00Z', [1, 2]));
+		onMessage({ targetChange: { targetChangeType: 'CURRENT', targetIds: [1, 2] } });
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(querySnapshots.map((snap) => snap.docs.map((doc) => doc.id))).toEqual([['a', 'b']]);
+		expect(docSnapshots.map((snap) => snap.get('id'))).toEqual(['b']);
+
+		unsubscribeQuery();
+		expect(channels[0].sent.at(-1)).toEqual({
+			database: 'projects/p/databases/(default)',
+			removeTarget: 1
+		});
+		onMessage({
+			documentDelete: {
+				document: 'projects/p/databases/(default)/documents/col/b',
+				removedTargetIds: [1, 2]
+			}
+		});
+		onMessage({ targetChange: { targetIds: [] } });
+		expect(docSnapshots.map((snap) => snap.exists)).toEqual([true, false]);
+		expect(querySnapshots).toHaveLength(1);
+
+		unsubscribeDoc();
+		expect(channels[0].closed).toBe(true);
+
+		firestore.doc('col/c').onSnapshot(() => undefined);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(channels).toHaveLength(2);
+		expect(channels[1].sent).toEqual([
+			{
+				database: 'projects/p/databases/(default)',
+				addTarget: expect.objectContaining({ targetId: 3 }) as unknown
+			}
+		]);
+	});
+
+	it('reconnects when a listener resubscribes while the access token is pending', async () => {
+		const firestore = createFirestore();
+		const resolvers: Array<(token: string) => void> = [];
+		(firestore as unknown as { _getAccessToken: () => Promise<string> })._getAccessToken = () =>
+			new Promise((resolve) => {
+				resolvers.push(resolve);
+			});
+
+		const unsubscribe = firestore.doc('col/a').onSnapshot(() => undefined);
+		await vi.advanceTimersByTimeAsync(0);
+		unsubscribe();
+		firestore.doc('col/b').onSnapshot(() => undefined);
+		await vi.advanceTimersByTimeAsync(0);
+		expect(resolvers).toHaveLength(2);
+
+		resolvers[0]('token-1');
+		resolvers[1]('token-2');
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(channels).toHaveLength(1);
+		expect(channels[0].options.initMessageHeaders).toEqual({ Authorization: 'Bearer token-2' });
+		expect(channels[0].sent).toEqual([
+			{
+				database: 'projects/p/databases/(default)',
+				addTarget: {
+					targetId: 2,
+					documents: { documents: ['projects/p/databases/(default)/documents/col/b'] }
+				}
+			}
+		]);
+	});
+});
+
+describe('listener snapshots', () => {
+	it('carries document timestamps and read times into snapshots', async () => {
+		const firestore = createFirestore();
+		const docSnapshots: DocumentSnapshot[] = [];
+		const missingSnapshots: DocumentSnapshot[] = [];
+		const querySnapshots: QuerySnapshot[] = [];
+		firestore.doc('col/a').onSnapshot((snap) => docSnapshots.push(snap));
+		firestore.doc('col/missing').onSnapshot((snap) => missingSnapshots.push(snap));
+		firestore.collection('col').onSnapshot((snap) => querySnapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		const { onMessage } = channels[0].options;
+		onMessage({
+			documentChange: {
+				document: {
+					name: 'projects/p/databases/(default)/documents/col/a',
+					fields: { n: { integerValue: '1' } },
+					createTime: '2026-02-05T00:00:00Z',
+					updateTime: '2026-02-05T00:00:01Z'
+				},
+				targetIds: [1, 3]
+			}
+		});
+		expect(docSnapshots).toHaveLength(0);
+		onMessage({
+			targetChange: {
+				targetChangeType: 'CURRENT',
+				targetIds: [1, 2, 3],
+				readTime: '2026-02-05T00:00:02Z'
+			}
+		});
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(docSnapshots).toHaveLength(1);
+		expect(docSnapshots[0].get('n')).toBe(1);
+		expect(docSnapshots[0].createTime?.toDate().toISOString()).toBe('2026-02-05T00:00:00.000Z');
+		expect(docSnapshots[0].updateTime?.toDate().toISOString()).toBe('2026-02-05T00:00:01.000Z');
+		expect(docSnapshots[0].readTime?.toDate().toISOString()).toBe('2026-02-05T00:00:02.000Z');
+
+		expect(missingSnapshots).toHaveLength(1);
+		expect(missingSnapshots[0].exists).toBe(false);
+		expect(missingSnapshots[0].readTime?.toDate().toISOString()).toBe('2026-02-05T00:00:02.000Z');
+
+		expect(querySnapshots).toHaveLength(1);
+		expect(querySnapshots[0].readTime?.toDate().toISOString()).toBe('2026-02-05T00:00:02.000Z');
+
+		onMessage({ targetChange: { targetIds: [], readTime: '2026-02-05T00:00:03Z' } });
+		await vi.advanceTimersByTimeAsync(0);
+		expect([docSnapshots.length, missingSnapshots.length, querySnapshots.length]).toEqual([
+			1, 1, 1
+		]);
+	});
+});
+
+describe('snapshot metadata', () => {
+	it('emits metadata-only snapshots when requested', async () => {
+		const firestore = createFirestore();
+		const withMetadata: QuerySnapshot[] = [];
+		const withoutMetadata: QuerySnapshot[] = [];
+		const docSnapshots: DocumentSnapshot[] = [];
+		firestore
+			.collection('col')
+			.onSnapshot({ includeMetadataChanges: true }, (snap) => withMetadata.push(snap));
+		firestore.collection('col').onSnapshot((snap) => withoutMetadata.push(snap));
+		firestore
+			.doc('col/a')
+			.onSnapshot({ includeMetadataChanges: true }, (snap) => docSnapshots.push(snap));
+		await vi.advanceTimersByTimeAsync(0);
+
+		channels[0].options.onMessage(docChange('a', '2026-02-05T00:00:00Z', [1, 2, 3]));
+		channels[0].options.onMessage({
+			targetChange: { targetChangeType: 'CURRENT', targetIds: [1, 2, 3], resumeToken: 'tok1' }
+		});
+		await vi.advanceTimersByTimeAsync(0);
+		expect(withMetadata.map((snap) => snap.metadata.fromCache)).toEqual([false]);
+		expect(withoutMetadata.map((snap) => snap.metadata.fromCache)).toEqual([false]);
+		expect(docSnapshots.map((snap) => snap.metadata.fromCache)).toEqual([false]);
+
+		channels[0].options.onClose();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(withMetadata.map((snap) => snap.metadata.fromCache)).toEqual([false, true]);
+		expect(withMetadata[1].docs.map((doc) => doc.metadata.fromCache)).toEqual([true]);
+		expect(withMetadata[1].docChanges({ includeMetadataChanges: true })).toEqual([]);
+		expect(docSnapshots.map((snap) => snap.metadata.fromCache)).toEqual([false, true]);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		channels[1].options.onMessage({
+			targetChange: { targetChangeType: 'CURRENT', targetIds: [1, 2, 3], resumeToken: 'tok2' }
+		});
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(withMetadata.map((snap) => snap.metadata.fromCache)).toEqual([false, true, false]);
+		expect(withMetadata[2].docs.map((doc) => doc.id)).toEqual(['a']);
+		expect(docSnapshots.map((snap) => snap.metadata.fromCache)).toEqual([false, true, false]);
+		expect(withoutMetadata).toHaveLength(1);
+		expect(() => withoutMetadata[0].docChanges({ includeMetadataChanges: true })).toThrow(
+			/includeMetadataChanges: true/
+		);
+	});
+});
@@ -0,0 +1,211 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { openWebChannel } from '../src/firestore/listen/webchannel.js';
+
+type RecordedRequest = { url: URL; method: string; body: string };
+
+function chunk(value: unknown): string {
+	const json = JSON.stringify(value);
+	return `${String(json.length)}\n${json}`;
+}
+
+function createServer() {
+	const requests: RecordedRequest[] = [];
+	const backChannels: ReadableStreamDefaultController<Uint8Array>[] = [];
+	const encoder = new TextEncoder();
+	const fetch = vi.fn((input: string | URL | Request, init?: RequestInit) => {
+		const url = new URL(input instanceof Request ? input.url : input);
+		const method = init?.method ?? 'GET';
+		requests.push({ url, method, body: typeof init?.body === 'string' ? init.body : '' });
+		if (url.searchParams.get('CVER')) {
+			return Promise.resolve(
+				new Response(chunk([[0, ['c', 'sid-1', '', 8, 14, 30000]]]), {
+					headers: { 'X-HTTP-Session-Id': 'gs-1' }
+				})
+			);
+		}
+		if (url.searchParams.get('RID') === 'rpc') {
+			const body = new ReadableStream<Uint8Array>({
+				start(controller) {
+					backChannels.push(controller);
+					init?.signal?.addEventListener('abort', () => {
+						controller.error(new Error('aborted'));
+					});
+				}
+			});
+			return Promise.resolve(new Response(body));
+		}
+		return Promise.resolve(new Response(chunk([1, 0, 0])));
+	});
+	const push = (text: string, index = backChannels.length - 1) => {
+		backChannels[index].enqueue(encoder.encode(text));
+	};
+	return { requests, backChannels, fetch, push };
+}
+
+function open(server: ReturnType<typeof createServer>) {
+	const messages: unknown[] = [];
+	const onError = vi.fn();
+	const onClose = vi.fn();
+	const channel = openWebChannel({
+		baseUrl: 'http://127.0.0.1:9999/',
+		rpcPath: 'google.firestore.v1.Firestore',
+		methodName: 'Listen',
+		database: 'projects/p/databases/(default)',
+		initMessageHeaders: { Authorization: 'Bearer token' },
+		onMessage: (message) => messages.push(message),
+		onError,
+		onClose,
+		fetch: server.fetch
+	});
+	return { channel, messages, onError, onClose };
+}
+
+describe('openWebChannel', () => {
+	it('performs the handshake and streams back-channel messages', async () => {
+		const server = createServer();
+		const { channel, messages, onError } = open(server);
+		channel.send({ addTarget: { targetId: 1 } });
+
+		await vi.waitFor(() => {
+			expect(server.backChannels).toHaveLength(1);
+		});
+
+		const [handshake, backChannel] = server.requests;
+		expect(handshake.method).toBe('POST');
+		expect(handshake.url.pathname).toBe('/google.firestore.v1.Firestore/Listen/channel');
+		expect(handshake.url.searchParams.get('VER')).toBe('8');
+		expect(handshake.url.searchParams.get('database')).toBe('projects/p/databases/(default)');
+		expect(handshake.url.searchParams.get('$httpHeaders')).toBe('Authorization:Bearer token\r\n');
+		expect(new URLSearchParams(handshake.body).get('req0___data__')).toBe(
+			JSON.stringify({ addTarget: { targetId: 1 } })
+		);
+
+		expect(backChannel.method).toBe('GET');
+		expect(Object.fromEntries(backChannel.url.searchParams)).toMatchObject({
+			SID: 'sid-1',
+			gsessionid: 'gs-1',
+			RID: 'rpc',
+			AID: '0',
+			TYPE: 'xmlhttp'
+		});
+
+		// Chunks may be split across reads and carry several arrays.
+		const text = chunk([
+			[1, ['noop']],
+			[2, [{ targetChange: { targetChangeType: 'ADD' } }]]
+		]);
+		server.push(text.slice(0, 7));
+		server.push(text.slice(7) + chunk([[2, [{ duplicate: true }]]]));
+		await vi.waitFor(() => {
+			expect(messages).toEqual([{ targetChange: { targetChangeType: 'ADD' } }]);
+		});
+
+		channel.send({ removeTarget: 1 });
+		channel.send({ removeTarget: 2 });
+		await vi.waitFor(() => {
+			expect(server.requests.filter((request) => request.method === 'POST')).toHaveLength(3);
+		});
+		const [, first, second] = server.requests.filter((request) => request.method === 'POST');
+		expect(Object.fromEntries(first.url.searchParams)).toMatchObject({ SID: 'sid-1', AID: '2' });
+		expect(Object.fromEntries(new URLSearchParams(first.body))).toEqual({
+			count: '1',
+			ofs: '1',
+			req0___data__: JSON.stringify({ removeTarget: 1 })
+		});
+		expect(new URLSearchParams(second.body).get('ofs')).toBe('2');
+
+		// The server ending the long poll opens a new one that acknowledges what was received.
+		server.backChannels[0].close();
+		await vi.waitFor(() => {
+			expect(server.backChannels).toHaveLength(2);
+		});
+		expect(server.requests.at(-1)?.url.searchParams.get('AID')).toBe('2');
+
+		channel.close();
+		await vi.waitFor(() => {
+			expect(server.requests.at(-1)?.url.searchParams.get('TYPE')).toBe('terminate');
+		});
+		expect(onError).not.toHaveBeenCalled();
+	});
+
+	it('keeps the session when the message handler throws', async () => {
+		const server = createServer();
+		const onError = vi.fn();
+		const messages: unknown[] = [];
+		openWebChannel({
+			baseUrl: 'http://127.0.0.1:9999/',
+			rpcPath: 'google.firestore.v1.Firestore',
+			methodName: 'Listen',
+			database: 'projects/p/databases/(default)',
+			initMessageHeaders: {},
+			onMessage: (message) => {
+				messages.push(message);
+				if (messages.length === 1) {
+					throw new Error('listener failed');
+				}
+			},
+			onError,
+			onClose: () => undefined,
+			fetch: server.fetch
+		});
+		await vi.waitFor(() => {
+			expect(server.backChannels).toHaveLength(1);
+		});
+
+		const rethrown: (() => void)[] = [];
+		const queueMicrotask = vi
+			.spyOn(globalThis, 'queueMicrotask')
+			.mockImplementation((callback) => rethrown.push(callback));
+		server.push(chunk([[1, [{ first: true }, { second: true }]]]));
+		await vi.waitFor(() => {
+			expect(messages).toHaveLength(2);
+		});
+		queueMicrotask.mockRestore();
+
+		expect(rethrown).toHaveLength(1);
+		expect(rethrown[0]).toThrow('listener failed');
+		expect(onError).not.toHaveBeenCalled();
+		expect(server.backChannels).toHaveLength(1);
+	});
+
+	it('reports HTTP failures and server-closed channels', async () => {
+		const failing = createServer();
+		failing.fetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response('Unknown SID', { status: 400 }))
+		);
+		const { onError } = open(failing);
+		await vi.waitFor(() => {
+			expect(onError).toHaveBeenCalledTimes(1);
+		});
+		expect(onError.mock.calls[0][0]).toMatchObject({
+			message: '[webchannel] HTTP 400: Unknown SID',
+			code: 'unavailable',
+			httpStatus: 400,
+			method: 'Listen'
+		});
+
+		const denied = createServer();
+		denied.fetch.mockImplementationOnce(() =>
+			Promise.resolve(new Response('Forbidden', { status: 403 }))
+		);
+		const { onError: onDeniedError } = open(denied);
+		await vi.waitFor(() => {
+			expect(onDeniedError).toHaveBeenCalledTimes(1);
+		});
+		expect(onDeniedError.mock.calls[0][0]).toMatchObject({
+			code: 'permission-denied',
+			httpStatus: 403
+		});
+
+		const server = createServer();
+		const { onClose } = open(server);
+		await vi.waitFor(() => {
+			expect(server.backChannels).toHaveLength(1);
+		});
+		server.push(chunk([[1, ['close']]]));
+		await vi.waitFor(() => {
+			expect(onClose).toHaveBeenCalledTimes(1);
+		});
+	});
+});